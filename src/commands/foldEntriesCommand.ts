@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import {
+  ILogEntryParser,
+  IContentAnalyzer,
+  ITimestampService,
+  IConfigurationService,
+  LogEntry,
+  OperationResult,
+  ErrorCode
+} from '../types';
+import { ErrorLogger } from '../services/errorLogger';
+
+/**
+ * Commands that fold the older entries of the active .LOG document and unfold the recent ones
+ * Days are calendar days in the configured time zone, so "today" matches the date written in the timestamps.
+ */
+export class FoldEntriesCommand {
+  public static readonly EXCEPT_TODAY_COMMAND_ID = 'dotlog.foldEntriesExceptToday';
+  public static readonly OLDER_THAN_COMMAND_ID = 'dotlog.foldEntriesOlderThan';
+
+  private static readonly DAY_FORMAT = 'YYYY-MM-DD';
+
+  private logger: ErrorLogger;
+
+  constructor(
+    private entryParser: ILogEntryParser,
+    private contentAnalyzer: IContentAnalyzer,
+    private timestampService: ITimestampService,
+    private configurationService: IConfigurationService
+  ) {
+    this.logger = ErrorLogger.getInstance();
+  }
+
+  /**
+   * Registers both fold commands with VS Code
+   * @returns Disposable that unregisters the commands
+   */
+  public register(): vscode.Disposable {
+    return vscode.Disposable.from(
+      vscode.commands.registerCommand(FoldEntriesCommand.EXCEPT_TODAY_COMMAND_ID, () => this.execute(0)),
+      vscode.commands.registerCommand(FoldEntriesCommand.OLDER_THAN_COMMAND_ID, async () => {
+        const days = await this.promptForDays();
+        return days === undefined ? undefined : this.execute(days);
+      })
+    );
+  }
+
+  /**
+   * Folds the entries written before the last given number of days and unfolds the others
+   * @param days Number of days before today to keep unfolded; 0 keeps only today's entries
+   * @param editor The editor to fold, defaults to the active editor
+   * @returns OperationResult containing the number of folded entries
+   */
+  public async execute(days: number, editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor): Promise<OperationResult<number>> {
+    if (!editor) {
+      this.logger.logDebug('Fold entries command invoked without an active editor');
+      return {
+        success: false,
+        error: 'No active editor',
+        errorCode: ErrorCode.NO_ACTIVE_EDITOR
+      };
+    }
+
+    const document = editor.document;
+    if (!this.contentAnalyzer.shouldProcessDocument(document)) {
+      void vscode.window.showInformationMessage('dotLOG: Entries can only be folded in files that start with a .LOG marker.');
+      return {
+        success: true,
+        data: 0
+      };
+    }
+
+    const entries = this.entryParser.parseEntries(document)
+      .filter(entry => entry.range.end.line > entry.range.start.line);
+    const olderEntries = this.findEntriesOlderThan(document, entries, days);
+    const recentEntries = entries.filter(entry => !olderEntries.includes(entry));
+
+    // Folding commands act on the active editor's regions that start at the given lines
+    const toFoldArguments = (foldEntries: LogEntry[]) => ({
+      levels: 1,
+      direction: 'up',
+      selectionLines: foldEntries.map(entry => entry.range.start.line)
+    });
+
+    if (recentEntries.length > 0) {
+      await vscode.commands.executeCommand('editor.unfold', toFoldArguments(recentEntries));
+    }
+    if (olderEntries.length > 0) {
+      await vscode.commands.executeCommand('editor.fold', toFoldArguments(olderEntries));
+    }
+
+    this.logger.logDebug('Folded log entries', {
+      fileName: document.fileName,
+      days,
+      foldedCount: olderEntries.length,
+      unfoldedCount: recentEntries.length
+    });
+
+    return {
+      success: true,
+      data: olderEntries.length
+    };
+  }
+
+  /**
+   * Selects the entries dated before the last given number of days
+   * @param document The document the entries belong to, for its time zone setting
+   * @param entries The document's entries
+   * @param days Number of days before today to keep
+   * @param now The current time
+   * @returns Entries whose calendar day is before the cutoff day
+   */
+  public findEntriesOlderThan(document: vscode.TextDocument, entries: LogEntry[], days: number, now: Date = new Date()): LogEntry[] {
+    const timeZone = this.configurationService.getTimestampOptions(document.uri).timeZone;
+    const toDay = (date: Date) => this.timestampService.formatTimestamp(date, {
+      format: FoldEntriesCommand.DAY_FORMAT,
+      timeZone
+    });
+
+    // Counted in calendar days, since days around daylight saving changes aren't 24 hours long;
+    // YYYY-MM-DD days compare correctly as strings
+    const cutoffDay = FoldEntriesCommand.addDays(toDay(now), -days);
+    return entries.filter(entry => toDay(entry.date) < cutoffDay);
+  }
+
+  /**
+   * Asks how many days of entries to keep unfolded
+   * @returns The number of days, or undefined if the input was cancelled
+   */
+  private async promptForDays(): Promise<number | undefined> {
+    const input = await vscode.window.showInputBox({
+      title: 'dotLOG: Fold Entries Older Than N Days',
+      prompt: 'Fold entries older than this many days',
+      value: '7',
+      validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a whole number of days'
+    });
+
+    return input === undefined ? undefined : Number(input.trim());
+  }
+
+  /**
+   * Moves a YYYY-MM-DD day by a number of calendar days
+   * @param day The day
+   * @param days Days to add, negative to go back
+   * @returns The resulting day
+   */
+  private static addDays(day: string, days: number): string {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, date + days)).toISOString().substring(0, 10);
+  }
+}
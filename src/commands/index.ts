@@ -0,0 +1,6 @@
+// Command exports
+export { InsertTimestampCommand } from './insertTimestampCommand';
+export { NewEntryCommand } from './newEntryCommand';
+export { FoldEntriesCommand } from './foldEntriesCommand';
+export { OpenCalendarCommand } from './openCalendarCommand';
+export { OpenTodayCommand } from './openTodayCommand';
\ No newline at end of file
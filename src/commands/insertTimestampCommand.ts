@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import {
+  ITimestampService,
+  IHandlerRegistry,
+  IConfigurationService,
+  OperationResult,
+  ErrorCode
+} from '../types';
+import { ErrorLogger } from '../services/errorLogger';
+
+/**
+ * Command that inserts the current timestamp at each cursor of the active editor, like Notepad's F5
+ * The text is formatted by the handler for the document's file type, or inserted as plain text
+ * for file types without a handler. Works in any document, with or without a .LOG marker.
+ */
+export class InsertTimestampCommand {
+  public static readonly COMMAND_ID = 'dotlog.insertTimestamp';
+
+  private logger: ErrorLogger;
+
+  constructor(
+    private timestampService: ITimestampService,
+    private handlerRegistry: IHandlerRegistry,
+    private configurationService: IConfigurationService
+  ) {
+    this.logger = ErrorLogger.getInstance();
+  }
+
+  /**
+   * Registers the command with VS Code
+   * @returns Disposable that unregisters the command
+   */
+  public register(): vscode.Disposable {
+    return vscode.commands.registerCommand(InsertTimestampCommand.COMMAND_ID, () => this.execute());
+  }
+
+  /**
+   * Inserts a timestamp at every selection, replacing selected text
+   * @param editor The editor to insert into, defaults to the active editor
+   * @returns OperationResult containing the number of inserted timestamps
+   */
+  public async execute(editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor): Promise<OperationResult<number>> {
+    if (!editor) {
+      this.logger.logDebug('Insert timestamp command invoked without an active editor');
+      return {
+        success: false,
+        error: 'No active editor',
+        errorCode: ErrorCode.NO_ACTIVE_EDITOR
+      };
+    }
+
+    const document = editor.document;
+
+    try {
+      const handler = this.handlerRegistry.getHandlerForDocument(document);
+
+      const timestampResult = this.timestampService.getCurrentTimestamp({
+        ...this.configurationService.getTimestampOptions(document.uri),
+        ...(handler ? handler.getTimestampOptions(document) : {})
+      });
+      if (!timestampResult.success || !timestampResult.data) {
+        return {
+          success: false,
+          error: timestampResult.error || 'Failed to generate timestamp',
+          errorCode: ErrorCode.TIMESTAMP_GENERATION_FAILED
+        };
+      }
+
+      const timestamp = timestampResult.data;
+      // Handlers format timestamps as blocks for the end of the document; drop the surrounding newlines
+      const text = handler
+        ? handler.formatTimestamp(timestamp, document).replace(/^\n+|\n+$/g, '')
+        : timestamp;
+      const isBlock = text !== timestamp;
+      const selections = editor.selections;
+
+      const applied = await editor.edit(editBuilder => {
+        for (const selection of selections) {
+          editBuilder.replace(selection, isBlock ? this.placeOnOwnLine(document, selection, text) : text);
+        }
+      });
+
+      if (!applied) {
+        this.logger.logWarning('Insert timestamp command could not edit the document', {
+          fileName: document.fileName
+        });
+        return {
+          success: false,
+          error: 'Document is read-only or cannot be modified',
+          errorCode: ErrorCode.DOCUMENT_MODIFICATION_FAILED
+        };
+      }
+
+      this.logger.logDebug('Inserted timestamp at cursors', {
+        fileName: document.fileName,
+        fileType: handler ? handler.getFileType() : null,
+        cursorCount: selections.length
+      });
+
+      return {
+        success: true,
+        data: selections.length
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      this.logger.logError(error instanceof Error ? error : new Error(errorMessage), {
+        fileName: document.fileName,
+        operation: 'insertTimestamp'
+      }, ErrorCode.DOCUMENT_MODIFICATION_FAILED);
+
+      return {
+        success: false,
+        error: errorMessage,
+        errorCode: ErrorCode.DOCUMENT_MODIFICATION_FAILED
+      };
+    }
+  }
+
+  /**
+   * Adds line breaks so block-formatted timestamps, such as headings, start and end on their own line
+   * @param document The document being edited
+   * @param selection The selection the text replaces
+   * @param text The block-formatted timestamp
+   * @returns The text with line breaks where the selection has text before or after it
+   */
+  private placeOnOwnLine(document: vscode.TextDocument, selection: vscode.Selection, text: string): string {
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const textBefore = document.lineAt(selection.start.line).text.substring(0, selection.start.character);
+    const textAfter = document.lineAt(selection.end.line).text.substring(selection.end.character);
+
+    const block = text.replace(/\n/g, eol);
+    return `${textBefore.trim().length > 0 ? eol : ''}${block}${textAfter.trim().length > 0 ? eol : ''}`;
+  }
+}
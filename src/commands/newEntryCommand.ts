@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import {
+  IFileMonitor,
+  IContentAnalyzer,
+  IHandlerRegistry,
+  IConfigurationService,
+  ProcessingResult,
+  ProcessingState
+} from '../types';
+import { ErrorLogger } from '../services/errorLogger';
+
+/**
+ * Command that appends a new timestamped entry to the active .LOG document
+ * Runs the same processing as opening the document, so log files that stay open
+ * all day can get new entries without being closed and reopened.
+ */
+export class NewEntryCommand {
+  public static readonly COMMAND_ID = 'dotlog.newEntry';
+  // Context key that shows the command in the editor title bar and command palette
+  public static readonly CONTEXT_KEY = 'dotlog.isLogDocument';
+
+  private logger: ErrorLogger;
+  private isLogDocumentContext: boolean | undefined;
+
+  constructor(
+    private fileMonitor: IFileMonitor,
+    private contentAnalyzer: IContentAnalyzer,
+    private handlerRegistry: IHandlerRegistry,
+    private configurationService: IConfigurationService
+  ) {
+    this.logger = ErrorLogger.getInstance();
+  }
+
+  /**
+   * Registers the command and keeps the dotlog.isLogDocument context key up to date
+   * @returns Disposable that unregisters the command and its listeners
+   */
+  public register(): vscode.Disposable {
+    const disposable = vscode.Disposable.from(
+      vscode.commands.registerCommand(NewEntryCommand.COMMAND_ID, () => this.execute()),
+      vscode.window.onDidChangeActiveTextEditor(editor => this.updateContext(editor)),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document === vscode.window.activeTextEditor?.document) {
+          this.updateContext(vscode.window.activeTextEditor);
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('dotlog')) {
+          this.updateContext(vscode.window.activeTextEditor);
+        }
+      })
+    );
+
+    this.updateContext(vscode.window.activeTextEditor);
+    return disposable;
+  }
+
+  /**
+   * Appends a timestamp to the document in the editor and positions the cursor after it
+   * @param editor The editor showing the document, defaults to the active editor
+   * @returns Promise resolving to the processing result
+   */
+  public async execute(editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor): Promise<ProcessingResult> {
+    if (!editor) {
+      this.logger.logDebug('New entry command invoked without an active editor');
+      return {
+        success: false,
+        error: 'No active editor',
+        documentModified: false,
+        processingState: ProcessingState.FAILED
+      };
+    }
+
+    const document = editor.document;
+    if (!this.isLogDocument(document)) {
+      void vscode.window.showInformationMessage(
+        'dotLOG: New entries can only be added to supported files that start with a .LOG marker.'
+      );
+      return {
+        success: true,
+        documentModified: false,
+        processingState: ProcessingState.SKIPPED
+      };
+    }
+
+    // A skipped result here means the last entry is recent and still empty (dotlog.coalesceWindowMinutes)
+    const result = await this.fileMonitor.addEntry(document);
+
+    if (!result.success) {
+      void vscode.window.showWarningMessage(`dotLOG: Could not add a new entry: ${result.error || 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether new entries can be added to a document
+   * @param document The document to check
+   * @returns true if the document has a trigger marker and its file type is enabled
+   */
+  public isLogDocument(document: vscode.TextDocument): boolean {
+    const fileType = this.contentAnalyzer.getFileType(document);
+    if (!fileType) {
+      return false;
+    }
+
+    const config = this.configurationService.getConfig(document.uri);
+    return config.enabled &&
+      this.handlerRegistry.getEnabledFileTypes(config.supportedFileTypes).includes(fileType) &&
+      this.contentAnalyzer.shouldProcessDocument(document);
+  }
+
+  /**
+   * Sets the dotlog.isLogDocument context key for the given editor
+   * The context is only updated when its value changes, since this runs on every edit
+   * @param editor The active editor, if any
+   */
+  private updateContext(editor: vscode.TextEditor | undefined): void {
+    const isLogDocument = !!editor && this.isLogDocument(editor.document);
+    if (isLogDocument === this.isLogDocumentContext) {
+      return;
+    }
+
+    this.isLogDocumentContext = isLogDocument;
+    void vscode.commands.executeCommand('setContext', NewEntryCommand.CONTEXT_KEY, isLogDocument);
+  }
+}
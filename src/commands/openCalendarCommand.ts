@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { ILogFileIndex, ITimestampService, IConfigurationService } from '../types';
+import { CalendarPanel } from '../webviews';
+
+/**
+ * Command that opens the dotLOG Calendar, or brings it to the front if it is already open
+ */
+export class OpenCalendarCommand {
+  public static readonly COMMAND_ID = 'dotlog.openCalendar';
+
+  private panel: CalendarPanel | undefined;
+
+  constructor(
+    private fileIndex: ILogFileIndex,
+    private timestampService: ITimestampService,
+    private configurationService: IConfigurationService
+  ) {}
+
+  /**
+   * Registers the command with VS Code
+   * @returns Disposable that unregisters the command and closes the calendar
+   */
+  public register(): vscode.Disposable {
+    return vscode.Disposable.from(
+      vscode.commands.registerCommand(OpenCalendarCommand.COMMAND_ID, () => this.execute()),
+      { dispose: () => this.panel?.dispose() }
+    );
+  }
+
+  /**
+   * Opens the calendar
+   * @returns The calendar panel
+   */
+  public execute(): CalendarPanel {
+    if (this.panel) {
+      this.panel.reveal();
+      return this.panel;
+    }
+
+    const panel = new CalendarPanel(this.fileIndex, this.timestampService, this.configurationService);
+    panel.onDidClose(() => {
+      if (this.panel === panel) {
+        this.panel = undefined;
+      }
+    });
+    this.panel = panel;
+
+    return panel;
+  }
+}
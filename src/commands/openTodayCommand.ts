@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  ITimestampService,
+  IHandlerRegistry,
+  IConfigurationService,
+  IFileHandler,
+  OperationResult,
+  ErrorCode,
+  TimeZoneSuffix
+} from '../types';
+import { ErrorLogger } from '../services/errorLogger';
+import { TimestampService } from '../services/timestampService';
+
+/**
+ * Command that opens today's journal file, creating it with a trigger marker and the configured template
+ * The file is opened like any other .LOG file, so the file monitor adds today's first timestamp.
+ */
+export class OpenTodayCommand {
+  public static readonly COMMAND_ID = 'dotlog.openToday';
+
+  private static readonly DAY_FORMAT = 'YYYY-MM-DD';
+
+  private logger: ErrorLogger;
+
+  constructor(
+    private timestampService: ITimestampService,
+    private handlerRegistry: IHandlerRegistry,
+    private configurationService: IConfigurationService
+  ) {
+    this.logger = ErrorLogger.getInstance();
+  }
+
+  /**
+   * Registers the command with VS Code
+   * @returns Disposable that unregisters the command
+   */
+  public register(): vscode.Disposable {
+    return vscode.commands.registerCommand(OpenTodayCommand.COMMAND_ID, () => this.execute());
+  }
+
+  /**
+   * Opens the journal file for a day, creating it first if needed
+   * @param date The day to open, defaults to now
+   * @returns OperationResult containing the journal file's URI
+   */
+  public async execute(date: Date = new Date()): Promise<OperationResult<vscode.Uri>> {
+    const pathPattern = this.configurationService.getConfig(vscode.workspace.workspaceFolders?.[0]?.uri).journalPathPattern;
+    if (!TimestampService.isValidFormat(OpenTodayCommand.splitPathPattern(pathPattern).pattern)) {
+      void vscode.window.showWarningMessage(
+        `dotLOG: dotlog.journalPathPattern "${pathPattern}" needs date tokens such as YYYY-MM-DD, with other text in [brackets].`
+      );
+      return {
+        success: false,
+        error: 'Invalid journal path pattern',
+        errorCode: ErrorCode.FILE_WRITE_ERROR
+      };
+    }
+
+    const uri = this.getJournalUri(date);
+    if (!uri) {
+      void vscode.window.showWarningMessage(
+        'dotLOG: Open a folder or set an absolute dotlog.journalFolder to use a daily journal.'
+      );
+      return {
+        success: false,
+        error: 'No folder for the journal',
+        errorCode: ErrorCode.FILE_WRITE_ERROR
+      };
+    }
+
+    const handler = this.getHandler(uri);
+    if (!handler) {
+      void vscode.window.showWarningMessage(
+        `dotLOG: dotlog.journalPathPattern must end in a supported extension such as .md, not "${path.posix.extname(uri.path)}".`
+      );
+      return {
+        success: false,
+        error: 'Unsupported journal file type',
+        errorCode: ErrorCode.UNSUPPORTED_FILE_TYPE
+      };
+    }
+
+    try {
+      if (!await OpenTodayCommand.exists(uri)) {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(this.createContent(handler, date), 'utf8'));
+        this.logger.logInfo('Created journal file', { fileName: uri.fsPath });
+      }
+
+      await vscode.window.showTextDocument(uri);
+      return { success: true, data: uri };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.logError(error instanceof Error ? error : new Error(message), {
+        operation: 'openToday',
+        fileName: uri.fsPath
+      });
+      void vscode.window.showErrorMessage(`dotLOG: Could not open today's journal: ${message}`);
+
+      return {
+        success: false,
+        error: message,
+        errorCode: ErrorCode.FILE_WRITE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Resolves the journal file for a day from dotlog.journalFolder and dotlog.journalPathPattern
+   * The pattern's date tokens are formatted in the configured time zone; its file extension is kept as is.
+   * @param date The day
+   * @returns The file's URI, or null if the folder is relative and no workspace folder is open
+   */
+  public getJournalUri(date: Date): vscode.Uri | null {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const config = this.configurationService.getConfig(workspaceFolder?.uri);
+
+    let folder: vscode.Uri;
+    if (path.isAbsolute(config.journalFolder)) {
+      folder = vscode.Uri.file(config.journalFolder);
+    } else if (workspaceFolder) {
+      folder = vscode.Uri.joinPath(workspaceFolder.uri, config.journalFolder);
+    } else {
+      return null;
+    }
+
+    const { pattern, extension } = OpenTodayCommand.splitPathPattern(config.journalPathPattern);
+    const filePath = this.timestampService.formatTimestamp(date, {
+      format: pattern,
+      timeZone: config.timeZone,
+      timeZoneSuffix: TimeZoneSuffix.NONE
+    }) + extension;
+
+    return vscode.Uri.joinPath(folder, ...filePath.split('/').filter(segment => segment.length > 0));
+  }
+
+  /**
+   * Builds the content of a new journal file: the trigger marker followed by the template
+   * The marker is written as a comment in file types whose handlers accept one, such as `// .LOG` in AsciiDoc.
+   * @param handler The handler for the journal's file type
+   * @param date The journal's day, substituted for `${date}` in the template
+   * @returns The file content
+   */
+  public createContent(handler: IFileHandler, date: Date): string {
+    const config = this.configurationService.getConfig(vscode.workspace.workspaceFolders?.[0]?.uri);
+    const commentPrefix = handler.getMarkerSearchOptions().commentPrefixes?.[0];
+    const marker = commentPrefix ? `${commentPrefix} ${config.triggerMarkers[0]}` : config.triggerMarkers[0];
+    const day = this.timestampService.formatTimestamp(date, {
+      format: OpenTodayCommand.DAY_FORMAT,
+      timeZone: config.timeZone,
+      timeZoneSuffix: TimeZoneSuffix.NONE
+    });
+    const template = config.journalTemplate.replace(/\$\{date\}/g, day).replace(/\s+$/, '');
+
+    return template ? `${marker}\n${template}\n` : `${marker}\n`;
+  }
+
+  /**
+   * Splits a journal path pattern into its date format and its file extension
+   * @param pathPattern The dotlog.journalPathPattern setting
+   * @returns The pattern without the extension, and the extension including its dot
+   */
+  private static splitPathPattern(pathPattern: string): { pattern: string; extension: string } {
+    const extension = path.posix.extname(pathPattern);
+    return { pattern: pathPattern.substring(0, pathPattern.length - extension.length), extension };
+  }
+
+  /**
+   * Finds the handler for the journal file's extension
+   * @param uri The journal file
+   * @returns The handler, or undefined if no handler supports the extension
+   */
+  private getHandler(uri: vscode.Uri): IFileHandler | undefined {
+    const extension = path.posix.extname(uri.path).substring(1).toLowerCase();
+    return this.handlerRegistry.getHandlers().find(handler => handler.getExtensions().includes(extension));
+  }
+
+  /**
+   * Checks whether a file exists
+   * @param uri The file
+   * @returns Promise resolving to true if the file exists
+   */
+  private static async exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch (error) {
+      // stat rejects with FileNotFound for missing files
+      return false;
+    }
+  }
+}
@@ -5,23 +5,24 @@ import {
   TimestampService,
   DocumentEditor,
   ErrorLogger,
-  ErrorRecoveryService
+  ErrorRecoveryService,
+  ConfigurationService,
+  LogMarkerMatcher,
+  LogEntryParser,
+  LogFileIndex,
+  EntryTemplateService
 } from './services';
-import {
-  TextFileHandler,
-  LogFileHandler,
-  MarkdownFileHandler
-} from './handlers';
-import {
-  SupportedFileType,
-  IFileHandler,
-  LogLevel
-} from './types';
+import { HandlerRegistry } from './handlers';
+import { InsertTimestampCommand, NewEntryCommand, FoldEntriesCommand, OpenCalendarCommand, OpenTodayCommand } from './commands';
+import { LogEntrySymbolProvider, LogEntryFoldingProvider, LogExplorerProvider, LogTimelineProvider } from './providers';
+import { ExtensionConfig } from './types';
 
 // Global extension state
 let fileMonitor: FileMonitor | null = null;
 let errorLogger: ErrorLogger | null = null;
 let errorRecoveryService: ErrorRecoveryService | null = null;
+let configurationService: ConfigurationService | null = null;
+let registrations: vscode.Disposable[] = [];
 
 /**
  * Extension activation function called when VS Code loads the extension
@@ -33,10 +34,12 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize error handling services first
     errorLogger = ErrorLogger.getInstance();
     errorRecoveryService = ErrorRecoveryService.getInstance();
+    configurationService = ConfigurationService.getInstance();
 
-    // Set log level based on development mode
-    const isDevelopment = context.extensionMode === vscode.ExtensionMode.Development;
-    errorLogger.setLogLevel(isDevelopment ? LogLevel.DEBUG : LogLevel.INFO);
+    // Apply logging settings before anything else is logged
+    const config = configurationService.getConfig();
+    errorLogger.setLogLevel(config.logLevel);
+    errorLogger.setEnabled(config.enableLogging);
 
     errorLogger.logInfo('dotLOG extension activating...', {
       extensionMode: context.extensionMode,
@@ -44,40 +47,82 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     // Initialize core services
-    const contentAnalyzer = new ContentAnalyzer();
+    const markerMatcher = new LogMarkerMatcher(configurationService);
     const timestampService = new TimestampService();
     const documentEditor = new DocumentEditor();
 
-    // Initialize file handlers
-    const textHandler = new TextFileHandler(documentEditor);
-    const logHandler = new LogFileHandler(documentEditor);
-    const markdownHandler = new MarkdownFileHandler(documentEditor);
+    applyTimestampSettings(timestampService, config);
 
-    // Create handler map for the file monitor
-    const fileHandlers = new Map<SupportedFileType, IFileHandler>([
-      [SupportedFileType.TEXT, textHandler],
-      [SupportedFileType.LOG, logHandler],
-      [SupportedFileType.MARKDOWN, markdownHandler]
-    ]);
+    // Register the built-in file handlers; the analyzer and file monitor share the registry
+    const handlerRegistry = HandlerRegistry.createDefault(documentEditor, markerMatcher);
+    const contentAnalyzer = new ContentAnalyzer(markerMatcher, handlerRegistry);
 
     errorLogger.logDebug('Initialized services and handlers', {
-      handlerCount: fileHandlers.size,
-      supportedTypes: Array.from(fileHandlers.keys())
+      handlerCount: handlerRegistry.getHandlers().length,
+      supportedTypes: handlerRegistry.getFileTypes()
     });
 
+    // File type IDs belong to the registered handlers, so only the registry can tell which configured IDs are unknown
+    const unknownFileTypes = (config.supportedFileTypes || []).filter(fileType => !handlerRegistry.getHandler(fileType));
+    if (unknownFileTypes.length > 0) {
+      errorLogger.logWarning('dotlog.supportedFileTypes lists file types without a registered handler', {
+        unknownFileTypes,
+        supportedTypes: handlerRegistry.getFileTypes()
+      });
+    }
+
     // Initialize file monitor with all dependencies
     fileMonitor = new FileMonitor(
       contentAnalyzer,
       timestampService,
-      fileHandlers
+      handlerRegistry,
+      configurationService,
+      new EntryTemplateService(configurationService, handlerRegistry)
     );
 
-    // Start monitoring document open events
-    const monitorResult = fileMonitor.startMonitoring();
-    if (!monitorResult.success) {
-      throw new Error(`Failed to start file monitoring: ${monitorResult.error}`);
+    // Start monitoring document open events unless the extension is disabled
+    if (config.enabled) {
+      const monitorResult = fileMonitor.startMonitoring();
+      if (!monitorResult.success) {
+        throw new Error(`Failed to start file monitoring: ${monitorResult.error}`);
+      }
     }
 
+    // Register commands and providers, replacing registrations left by a previous activation
+    disposeRegistrations();
+    const entryParser = new LogEntryParser(handlerRegistry, timestampService, configurationService);
+    const insertTimestampCommand = new InsertTimestampCommand(timestampService, handlerRegistry, configurationService);
+    const newEntryCommand = new NewEntryCommand(fileMonitor, contentAnalyzer, handlerRegistry, configurationService);
+    const foldEntriesCommand = new FoldEntriesCommand(entryParser, contentAnalyzer, timestampService, configurationService);
+    const symbolProvider = new LogEntrySymbolProvider(entryParser, contentAnalyzer);
+    const foldingProvider = new LogEntryFoldingProvider(entryParser, contentAnalyzer);
+    const fileIndex = new LogFileIndex(contentAnalyzer, entryParser, handlerRegistry, configurationService);
+    const logExplorerProvider = new LogExplorerProvider(fileIndex, timestampService, configurationService);
+    const logTimelineProvider = new LogTimelineProvider(fileIndex, timestampService, configurationService);
+    const openCalendarCommand = new OpenCalendarCommand(fileIndex, timestampService, configurationService);
+    const openTodayCommand = new OpenTodayCommand(timestampService, handlerRegistry, configurationService);
+    registrations = [
+      insertTimestampCommand.register(),
+      newEntryCommand.register(),
+      foldEntriesCommand.register(),
+      symbolProvider.register(),
+      foldingProvider.register(),
+      fileIndex,
+      fileIndex.startWatching(),
+      logExplorerProvider.register(),
+      logTimelineProvider.register(),
+      openCalendarCommand.register(),
+      openTodayCommand.register()
+    ];
+    context.subscriptions.push(...registrations);
+
+    // React to settings changes without requiring a window reload
+    context.subscriptions.push(
+      configurationService.onDidChangeConfiguration(event => {
+        onConfigurationChanged(event, timestampService);
+      })
+    );
+
     // Register disposables for proper cleanup
     context.subscriptions.push(
       {
@@ -91,13 +136,16 @@ export function activate(context: vscode.ExtensionContext) {
           if (errorRecoveryService) {
             errorRecoveryService.dispose();
           }
+          if (configurationService) {
+            configurationService.dispose();
+          }
         }
       }
     );
 
     errorLogger.logInfo('dotLOG extension activated successfully', {
       monitoringActive: fileMonitor.isMonitoring(),
-      supportedFileTypes: Array.from(fileHandlers.keys())
+      supportedFileTypes: handlerRegistry.getFileTypes()
     });
 
   } catch (error) {
@@ -119,6 +167,71 @@ export function activate(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * Applies the configured timestamp format, locale and time zone to the timestamp service,
+ * falling back to the default format and local time when the configured values are invalid
+ * @param timestampService The timestamp service to configure
+ * @param config The current extension configuration
+ */
+function applyTimestampSettings(timestampService: TimestampService, config: ExtensionConfig): void {
+  if (!timestampService.setFormat(config.timestampFormat)) {
+    errorLogger?.logWarning('Invalid timestamp format, falling back to default', {
+      format: config.timestampFormat,
+      defaultFormat: TimestampService.DEFAULT_FORMAT
+    });
+  }
+
+  // An empty locale follows the VS Code display language
+  const locale = config.locale || vscode.env.language;
+  if (!timestampService.setLocale(locale)) {
+    errorLogger?.logWarning('Unsupported timestamp locale, using runtime default', { locale });
+  }
+
+  if (!timestampService.setTimeZone(config.timeZone)) {
+    errorLogger?.logWarning('Unknown time zone, using local time', { timeZone: config.timeZone });
+  }
+  timestampService.setTimeZoneSuffix(config.timeZoneSuffix);
+}
+
+/**
+ * Applies changed dotlog.* settings to the running services
+ * @param event The configuration change event
+ * @param timestampService The timestamp service to reconfigure
+ */
+function onConfigurationChanged(event: vscode.ConfigurationChangeEvent, timestampService: TimestampService): void {
+  if (!configurationService) {
+    return;
+  }
+
+  const config = configurationService.getConfig();
+
+  if (errorLogger) {
+    errorLogger.setLogLevel(config.logLevel);
+    errorLogger.setEnabled(config.enableLogging);
+  }
+
+  const timestampSettings = ['timestampFormat', 'locale', 'timeZone', 'timeZoneSuffix'];
+  if (timestampSettings.some(setting => event.affectsConfiguration(`dotlog.${setting}`))) {
+    applyTimestampSettings(timestampService, config);
+  }
+
+  // Restart the file monitor so the new settings take effect for subsequent events
+  if (fileMonitor && event.affectsConfiguration('dotlog.enabled')) {
+    if (fileMonitor.isMonitoring()) {
+      fileMonitor.stopMonitoring();
+    }
+    if (config.enabled) {
+      fileMonitor.startMonitoring();
+    }
+  }
+
+  errorLogger?.logInfo('dotLOG configuration updated', {
+    enabled: config.enabled,
+    logLevel: config.logLevel,
+    monitoringActive: fileMonitor?.isMonitoring()
+  });
+}
+
 /**
  * Extension deactivation function called when VS Code unloads the extension
  * Performs cleanup of resources and stops monitoring
@@ -147,6 +260,13 @@ export function deactivate() {
       fileMonitor = null;
     }
 
+    if (configurationService) {
+      configurationService.dispose();
+      configurationService = null;
+    }
+
+    disposeRegistrations();
+
     // Clean up error handling services
     if (errorRecoveryService) {
       errorRecoveryService.dispose();
@@ -172,4 +292,12 @@ export function deactivate() {
       console.error('dotLOG: Error during deactivation:', errorMessage);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Unregisters the extension's commands and providers
+ */
+function disposeRegistrations(): void {
+  registrations.forEach(registration => registration.dispose());
+  registrations = [];
+}
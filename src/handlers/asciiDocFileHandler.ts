@@ -0,0 +1,74 @@
+import { BaseFileHandler } from './baseFileHandler';
+import { SupportedFileType, IDocumentEditor, ILogMarkerMatcher, MarkerSearchOptions, DocumentText } from '../types';
+
+/**
+ * File handler for AsciiDoc files that adds timestamps formatted as level 1 sections (==)
+ * Section level N is written with N + 1 `=`; a single `=` is the document title.
+ */
+export class AsciiDocFileHandler extends BaseFileHandler {
+  public static readonly FILE_TYPE = 'adoc';
+  private static readonly DEFAULT_SECTION_LEVEL = 1;
+  private static readonly MAX_SECTION_LEVEL = 5;
+
+  constructor(documentEditor: IDocumentEditor, markerMatcher?: ILogMarkerMatcher) {
+    super(documentEditor, markerMatcher);
+  }
+
+  /**
+   * Returns the file type this handler supports
+   * @returns AsciiDocFileHandler.FILE_TYPE
+   */
+  public getFileType(): SupportedFileType {
+    return AsciiDocFileHandler.FILE_TYPE;
+  }
+
+  /**
+   * Returns the file extensions this handler supports
+   * @returns ['adoc', 'asciidoc']
+   */
+  public getExtensions(): string[] {
+    return ['adoc', 'asciidoc'];
+  }
+
+  /**
+   * Returns the VS Code language IDs this handler supports
+   * @returns ['asciidoc']
+   */
+  public getLanguageIds(): string[] {
+    return ['asciidoc'];
+  }
+
+  /**
+   * The marker may be written as a line comment (`// .LOG`) so it doesn't show in the rendered document
+   * @returns Marker search options accepting `//` comments
+   */
+  public getMarkerSearchOptions(): MarkerSearchOptions {
+    return { commentPrefixes: ['//'] };
+  }
+
+  /**
+   * Formats the timestamp for AsciiDoc files
+   * Adds the timestamp as a level 1 section title (==) on a new line with a trailing newline for user input;
+   * a `heading=` directive on the trigger line sets the section level instead, from 1 (==) to 5 (======)
+   * @param timestamp The raw timestamp string
+   * @param document Optional document whose trigger line may set the section level
+   * @returns The formatted timestamp as AsciiDoc section title with newlines
+   */
+  public formatTimestamp(timestamp: string, document?: DocumentText): string {
+    const headingLevel = document && this.getDirectives(document).headingLevel;
+    const level = headingLevel && headingLevel <= AsciiDocFileHandler.MAX_SECTION_LEVEL
+      ? headingLevel
+      : AsciiDocFileHandler.DEFAULT_SECTION_LEVEL;
+    return `\n${'='.repeat(level + 1)} ${timestamp}\n`;
+  }
+
+  /**
+   * Reads the timestamp from an AsciiDoc section title
+   * @param line The text of the entry's first line
+   * @returns The title text, or null if the line is not a section title
+   */
+  protected extractTimestamp(line: string): string | null {
+    const match = line.match(/^=+\s+(.+?)\s*$/);
+    return match ? match[1] : null;
+  }
+}
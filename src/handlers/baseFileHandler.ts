@@ -1,19 +1,52 @@
 import * as vscode from 'vscode';
-import { IFileHandler, SupportedFileType, ProcessingResult, ProcessingState, IDocumentEditor } from '../types';
+import {
+  IFileHandler,
+  SupportedFileType,
+  ProcessingResult,
+  ProcessingState,
+  IDocumentEditor,
+  ILogMarkerMatcher,
+  MarkerSearchOptions,
+  TimestampOptions,
+  CoalesceOptions,
+  CoalesceAction,
+  EntryTemplate,
+  LogDirectives,
+  InsertPosition,
+  OperationResult,
+  DocumentText
+} from '../types';
 import { ErrorLogger } from '../services/errorLogger';
 import { ErrorRecoveryService } from '../services/errorRecovery';
+import { LogMarkerMatcher } from '../services/logMarkerMatcher';
+import { ConfigurationService } from '../services/configurationService';
+import { TimestampService } from '../services/timestampService';
+
+// The text of a new entry, and the text following the cursor when a template sets the cursor
+interface EntryText {
+  text: string;
+  textAfterCursor?: string;
+}
 
 /**
  * Abstract base class for file handlers that provides common functionality
  * for processing documents with .LOG prefix
  */
 export abstract class BaseFileHandler implements IFileHandler {
+  // Timestamps up to a minute ahead still count as recent, for clocks that drift between machines
+  private static readonly CLOCK_SKEW_MS = 60000;
+
   protected documentEditor: IDocumentEditor;
   protected logger: ErrorLogger;
   protected recoveryService: ErrorRecoveryService;
+  protected markerMatcher: ILogMarkerMatcher;
 
-  constructor(documentEditor: IDocumentEditor) {
+  constructor(
+    documentEditor: IDocumentEditor,
+    markerMatcher: ILogMarkerMatcher = new LogMarkerMatcher(ConfigurationService.getInstance())
+  ) {
     this.documentEditor = documentEditor;
+    this.markerMatcher = markerMatcher;
     this.logger = ErrorLogger.getInstance();
     this.recoveryService = ErrorRecoveryService.getInstance();
   }
@@ -21,30 +54,61 @@ export abstract class BaseFileHandler implements IFileHandler {
   /**
    * Determines if this handler can process the given document
    * @param document The VS Code text document to check
-   * @returns true if this handler supports the document's file type
+   * @returns true if the document has one of this handler's extensions and a .LOG trigger marker
    */
-  public abstract canHandle(document: vscode.TextDocument): boolean;
+  public canHandle(document: vscode.TextDocument): boolean {
+    const extension = this.getFileExtension(document);
+    return this.getExtensions().includes(extension) && this.hasLogPrefix(document);
+  }
 
   /**
-   * Returns the file type this handler supports
-   * @returns The supported file type enum value
+   * Returns the ID of the file type this handler supports, such as 'md'
+   * The ID is what dotlog.supportedFileTypes and dotlog.entryTemplates refer to, so it must be unique among handlers.
+   * @returns The file type ID
    */
   public abstract getFileType(): SupportedFileType;
 
+  /**
+   * Returns the file extensions this handler supports
+   * @returns Lowercase file extensions without the dot
+   */
+  public abstract getExtensions(): string[];
+
+  /**
+   * Returns the VS Code language IDs this handler supports, used when the extension is not recognized
+   * @returns VS Code language identifiers
+   */
+  public abstract getLanguageIds(): string[];
+
   /**
    * Formats the timestamp according to the file type's requirements
    * @param timestamp The raw timestamp string
+   * @param document Optional document the timestamp is added to, for per-document settings
    * @returns The formatted timestamp string
    */
-  public abstract formatTimestamp(timestamp: string): string;
+  public abstract formatTimestamp(timestamp: string, document?: DocumentText): string;
 
   /**
    * Processes the document by adding a formatted timestamp
+   * When the last entry is a recent timestamp with nothing under it, the new timestamp is skipped
+   * or replaces it, as set by the coalesce options. A template is written beneath the timestamp,
+   * and the cursor is placed at the template's cursor marker instead of the end of the document.
+   * The timestamp is formatted with the directives on the document's trigger line, such as `heading=3`.
+   * At the top position, the entry goes directly below the marker and the newest entry is the one checked for coalescing.
    * @param document The VS Code text document to process
    * @param timestamp The timestamp string to add
+   * @param coalesce Optional settings for combining the timestamp with a recent empty entry
+   * @param template Optional expanded entry template
+   * @param insertPosition Where the entry goes, at the end of the document by default
    * @returns Promise resolving to processing result
    */
-  public async processDocument(document: vscode.TextDocument, timestamp: string): Promise<ProcessingResult> {
+  public async processDocument(
+    document: vscode.TextDocument,
+    timestamp: string,
+    coalesce?: CoalesceOptions,
+    template?: EntryTemplate,
+    insertPosition: InsertPosition = InsertPosition.BOTTOM
+  ): Promise<ProcessingResult> {
     try {
       this.logger.logDebug('Processing document with file handler', {
         fileName: document.fileName,
@@ -68,7 +132,7 @@ export abstract class BaseFileHandler implements IFileHandler {
       }
 
       // Format the timestamp according to file type
-      const formattedTimestamp = this.formatTimestamp(timestamp);
+      const formattedTimestamp = this.formatTimestamp(timestamp, document);
 
       this.logger.logDebug('Formatted timestamp for file type', {
         fileName: document.fileName,
@@ -77,8 +141,46 @@ export abstract class BaseFileHandler implements IFileHandler {
         formattedTimestamp
       });
 
-      // Insert the formatted timestamp at the end of the document
-      const insertResult = await this.documentEditor.insertTextAtEnd(document, formattedTimestamp);
+      const topLine = insertPosition === InsertPosition.TOP ? this.findTopInsertionLine(document) : null;
+      const recentEntry = coalesce
+        ? topLine !== null ? this.findRecentEmptyEntryBelow(document, coalesce, topLine) : this.findRecentEmptyEntry(document, coalesce)
+        : null;
+
+      if (recentEntry && coalesce?.action === CoalesceAction.SKIP) {
+        this.logger.logInfo('Last entry is recent and empty, skipping timestamp', {
+          fileName: document.fileName,
+          fileType: this.getFileType(),
+          entryLine: recentEntry.start.line
+        });
+
+        await (topLine !== null
+          ? this.documentEditor.positionCursor(document, this.getPositionBelowEntry(document, recentEntry.start.line))
+          : this.documentEditor.positionCursorAtEnd(document));
+
+        return {
+          success: true,
+          documentModified: false,
+          processingState: ProcessingState.SKIPPED
+        };
+      }
+
+      // Insert the new entry in place of the recent entry, below the marker at the top position, or at the end of the document
+      const entry: EntryText = template ? BaseFileHandler.appendTemplate(formattedTimestamp, template) : { text: formattedTimestamp };
+      let entryText = entry.text;
+      let entryStart: vscode.Position | undefined;
+      let insertResult: OperationResult<boolean>;
+
+      if (recentEntry) {
+        entryText = entry.text.replace(/^\n+/, '');
+        entryStart = topLine !== null ? recentEntry.start : undefined;
+        insertResult = await this.documentEditor.replaceText(document, recentEntry, entryText);
+      } else if (topLine !== null) {
+        entryStart = new vscode.Position(topLine, 0);
+        // The extra line break leaves an empty line for writing, above the older entries
+        insertResult = await this.documentEditor.insertTextAtLine(document, topLine, entryText + '\n');
+      } else {
+        insertResult = await this.documentEditor.insertTextAtEnd(document, entryText);
+      }
 
       if (!insertResult.success) {
         this.logger.logError(
@@ -99,8 +201,16 @@ export abstract class BaseFileHandler implements IFileHandler {
         );
       }
 
-      // Position cursor after the inserted timestamp
-      const cursorResult = await this.documentEditor.positionCursorAtEnd(document);
+      // Position cursor at the template's cursor marker, or after the inserted entry
+      let cursorResult: OperationResult<void>;
+      if (entryStart) {
+        const textBeforeCursor = entryText.substring(0, entryText.length - (entry.textAfterCursor?.length ?? 0));
+        cursorResult = await this.documentEditor.positionCursor(document, BaseFileHandler.getPositionAfter(entryStart, textBeforeCursor));
+      } else if (entry.textAfterCursor !== undefined) {
+        cursorResult = await this.documentEditor.positionCursor(document, BaseFileHandler.getPositionBeforeEnd(document, entry.textAfterCursor));
+      } else {
+        cursorResult = await this.documentEditor.positionCursorAtEnd(document);
+      }
 
       if (!cursorResult.success) {
         // Document was modified but cursor positioning failed - still consider success
@@ -143,6 +253,210 @@ export abstract class BaseFileHandler implements IFileHandler {
     }
   }
 
+  /**
+   * Writes a template beneath a formatted timestamp
+   * @param formattedTimestamp The timestamp as formatted for the file type
+   * @param template The expanded template
+   * @returns The entry text, ending with a newline, and the text after the cursor if the template sets one
+   */
+  private static appendTemplate(formattedTimestamp: string, template: EntryTemplate): EntryText {
+    const head = formattedTimestamp.replace(/\n*$/, '\n');
+    const text = head + template.text.replace(/\n*$/, '\n');
+
+    return {
+      text,
+      textAfterCursor: template.cursorOffset !== undefined ? text.substring(head.length + template.cursorOffset) : undefined
+    };
+  }
+
+  /**
+   * Finds the position that is followed by the given text at the end of the document
+   * Lines are counted rather than characters, so documents with CRLF line endings work too.
+   * @param document The document, after the text was inserted at its end
+   * @param textAfter The text between the position and the end of the document, with \n line breaks
+   * @returns The position
+   */
+  private static getPositionBeforeEnd(document: vscode.TextDocument, textAfter: string): vscode.Position {
+    const lines = textAfter.split('\n');
+    const line = Math.max(0, document.lineCount - lines.length);
+    return new vscode.Position(line, Math.max(0, document.lineAt(line).text.length - lines[0].length));
+  }
+
+  /**
+   * Finds the position at the end of text inserted at a position
+   * Lines are counted rather than characters, so documents with CRLF line endings work too.
+   * @param start Where the text starts
+   * @param text The text, with \n line breaks
+   * @returns The position
+   */
+  private static getPositionAfter(start: vscode.Position, text: string): vscode.Position {
+    const lines = text.split('\n');
+    return lines.length === 1
+      ? new vscode.Position(start.line, start.character + text.length)
+      : new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+  }
+
+  /**
+   * Finds where to write under an entry: the blank line below it, or the end of its last line
+   * @param document The VS Code text document
+   * @param line The entry's first line
+   * @returns The position
+   */
+  private getPositionBelowEntry(document: vscode.TextDocument, line: number): vscode.Position {
+    const lastLine = line + this.getEntryLineCount() - 1;
+    if (lastLine + 1 < document.lineCount && document.lineAt(lastLine + 1).isEmptyOrWhitespace) {
+      return new vscode.Position(lastLine + 1, 0);
+    }
+    return new vscode.Position(lastLine, document.lineAt(lastLine).text.length);
+  }
+
+  /**
+   * Finds where new entries go at the top position: the line after the marker and any front matter
+   * @param document The VS Code text document
+   * @returns The line, or null if there is nothing below the marker, so entries go at the end as usual
+   */
+  private findTopInsertionLine(document: vscode.TextDocument): number | null {
+    const line = this.markerMatcher.findEntriesStart(document, this.getMarkerSearchOptions());
+    if (line === null) {
+      return null;
+    }
+
+    for (let contentLine = line; contentLine < document.lineCount; contentLine++) {
+      if (!document.lineAt(contentLine).isEmptyOrWhitespace) {
+        return line;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the last entry if it is a timestamp within the coalesce window with nothing written under it
+   * The entry must be exactly what formatTimestamp writes for its timestamp, followed only by blank lines.
+   * @param document The VS Code text document
+   * @param coalesce The coalesce window and timestamp parser
+   * @returns The range from the entry to the end of the document, or null if there is no such entry
+   */
+  protected findRecentEmptyEntry(document: vscode.TextDocument, coalesce: CoalesceOptions): vscode.Range | null {
+    if (coalesce.windowMinutes <= 0) {
+      return null;
+    }
+
+    let lastLine = document.lineCount - 1;
+    while (lastLine >= 0 && document.lineAt(lastLine).isEmptyOrWhitespace) {
+      lastLine--;
+    }
+
+    const firstLine = lastLine - this.getEntryLineCount() + 1;
+    if (!this.isRecentEntry(document, firstLine, coalesce)) {
+      return null;
+    }
+
+    const endLine = document.lineAt(document.lineCount - 1);
+    return new vscode.Range(firstLine, 0, endLine.lineNumber, endLine.text.length);
+  }
+
+  /**
+   * Finds the first entry below a line if it is a timestamp within the coalesce window with nothing written under it
+   * Used at the top position, where the newest entry comes first and only blank lines may separate it from the next entry.
+   * @param document The VS Code text document
+   * @param coalesce The coalesce window and timestamp parser
+   * @param line The line below the marker
+   * @returns The range from the entry to the end of the last line before the next entry, or null if there is no such entry
+   */
+  private findRecentEmptyEntryBelow(document: vscode.TextDocument, coalesce: CoalesceOptions, line: number): vscode.Range | null {
+    if (coalesce.windowMinutes <= 0) {
+      return null;
+    }
+
+    let firstLine = line;
+    while (firstLine < document.lineCount && document.lineAt(firstLine).isEmptyOrWhitespace) {
+      firstLine++;
+    }
+
+    if (!this.isRecentEntry(document, firstLine, coalesce)) {
+      return null;
+    }
+
+    let nextLine = firstLine + this.getEntryLineCount();
+    while (nextLine < document.lineCount && document.lineAt(nextLine).isEmptyOrWhitespace) {
+      nextLine++;
+    }
+
+    if (nextLine < document.lineCount && this.readEntryTimestamp(document, nextLine) === null) {
+      return null;
+    }
+
+    const endLine = document.lineAt(nextLine - 1);
+    return new vscode.Range(firstLine, 0, endLine.lineNumber, endLine.text.length);
+  }
+
+  /**
+   * Checks whether an entry starting at a line has a timestamp within the coalesce window
+   * @param document The VS Code text document
+   * @param line The line the entry would start at
+   * @param coalesce The coalesce window and timestamp parser
+   * @returns true if the entry's timestamp is recent
+   */
+  private isRecentEntry(document: vscode.TextDocument, line: number, coalesce: CoalesceOptions): boolean {
+    const timestamp = this.readEntryTimestamp(document, line);
+    if (!timestamp) {
+      return false;
+    }
+
+    const date = coalesce.parseTimestamp(timestamp);
+    if (!date) {
+      return false;
+    }
+
+    const elapsedMs = Date.now() - date.getTime();
+    return elapsedMs >= -BaseFileHandler.CLOCK_SKEW_MS && elapsedMs < coalesce.windowMinutes * 60000;
+  }
+
+  /**
+   * Reads the timestamp of an entry starting at a line
+   * The entry's lines must be exactly what formatTimestamp writes for the timestamp they contain.
+   * @param document The VS Code text document
+   * @param line The line the entry would start at
+   * @returns The timestamp text, or null if no entry starts at the line
+   */
+  public readEntryTimestamp(document: DocumentText, line: number): string | null {
+    const lastLine = line + this.getEntryLineCount() - 1;
+    if (line < 0 || lastLine >= document.lineCount) {
+      return null;
+    }
+
+    const timestamp = this.extractTimestamp(document.lineAt(line).text);
+    if (!timestamp) {
+      return null;
+    }
+
+    const entryLines: string[] = [];
+    for (let entryLine = line; entryLine <= lastLine; entryLine++) {
+      entryLines.push(document.lineAt(entryLine).text);
+    }
+
+    return entryLines.join('\n').trim() === this.formatTimestamp(timestamp, document).trim() ? timestamp : null;
+  }
+
+  /**
+   * Reads the timestamp from the first line of an entry written by formatTimestamp
+   * @param line The text of the entry's first line
+   * @returns The timestamp text, or null if the line can't start an entry; by default the whole line
+   */
+  protected extractTimestamp(line: string): string | null {
+    const timestamp = line.trim();
+    return timestamp.length > 0 ? timestamp : null;
+  }
+
+  /**
+   * Number of non-blank lines formatTimestamp writes for one entry
+   * @returns 1 by default
+   */
+  public getEntryLineCount(): number {
+    return 1;
+  }
+
   /**
    * Helper method to get file extension from document
    * @param document The VS Code text document
@@ -155,16 +469,45 @@ export abstract class BaseFileHandler implements IFileHandler {
   }
 
   /**
-   * Helper method to check if document has .LOG prefix
+   * Helper method to check if document has a .LOG trigger marker
    * @param document The VS Code text document
-   * @returns true if document starts with .LOG
+   * @returns true if document starts with a configured trigger marker
    */
   protected hasLogPrefix(document: vscode.TextDocument): boolean {
-    if (document.lineCount === 0) {
-      return false;
+    return this.markerMatcher.hasMarker(document, this.getMarkerSearchOptions());
+  }
+
+  /**
+   * Determines where to look for the trigger marker in this handler's file type
+   * @returns Marker search options; by default only the first line is checked
+   */
+  public getMarkerSearchOptions(): MarkerSearchOptions {
+    return {};
+  }
+
+  /**
+   * Timestamp options that override the configured ones for this file type
+   * @param document Optional document whose trigger line may set `format=` and `tz=` directives
+   * @returns Timestamp options; by default the document's valid directives, or none to use the configured settings
+   */
+  public getTimestampOptions(document?: DocumentText): TimestampOptions {
+    const directives = document ? this.getDirectives(document) : {};
+    const options: TimestampOptions = {};
+    if (directives.format && TimestampService.isValidFormat(directives.format)) {
+      options.format = directives.format;
     }
+    if (directives.timeZone && TimestampService.isValidTimeZone(directives.timeZone)) {
+      options.timeZone = directives.timeZone;
+    }
+    return options;
+  }
 
-    const firstLine = document.lineAt(0).text.trim();
-    return firstLine === '.LOG';
+  /**
+   * Reads the directives written after the document's trigger marker
+   * @param document The VS Code text document
+   * @returns The directives, empty if the document has no marker or the marker has none
+   */
+  protected getDirectives(document: DocumentText): LogDirectives {
+    return this.markerMatcher.findMarker(document, this.getMarkerSearchOptions())?.directives ?? {};
   }
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { IHandlerRegistry, IFileHandler, IDocumentEditor, ILogMarkerMatcher, SupportedFileType, DocumentText } from '../types';
+import { ErrorLogger } from '../services/errorLogger';
+import { TextFileHandler } from './textFileHandler';
+import { LogFileHandler } from './logFileHandler';
+import { MarkdownFileHandler } from './markdownFileHandler';
+import { AsciiDocFileHandler } from './asciiDocFileHandler';
+import { RestructuredTextFileHandler } from './restructuredTextFileHandler';
+import { OrgFileHandler } from './orgFileHandler';
+
+/**
+ * Registry of file handlers keyed by file type
+ * Handlers declare their own file type ID, extensions and language IDs, so supporting a new format
+ * only requires registering its handler
+ */
+export class HandlerRegistry implements IHandlerRegistry {
+  private handlers = new Map<SupportedFileType, IFileHandler>();
+  private logger: ErrorLogger;
+
+  constructor(handlers: IFileHandler[] = []) {
+    this.logger = ErrorLogger.getInstance();
+    handlers.forEach(handler => this.register(handler));
+  }
+
+  /**
+   * Creates a registry with the built-in text, log, Markdown, AsciiDoc, reStructuredText and Org handlers
+   * @param documentEditor Document editor shared by the handlers
+   * @param markerMatcher Optional marker matcher shared by the handlers
+   * @returns A registry containing the built-in handlers
+   */
+  public static createDefault(documentEditor: IDocumentEditor, markerMatcher?: ILogMarkerMatcher): HandlerRegistry {
+    return new HandlerRegistry([
+      new TextFileHandler(documentEditor, markerMatcher),
+      new LogFileHandler(documentEditor, markerMatcher),
+      new MarkdownFileHandler(documentEditor, markerMatcher),
+      new AsciiDocFileHandler(documentEditor, markerMatcher),
+      new RestructuredTextFileHandler(documentEditor, markerMatcher),
+      new OrgFileHandler(documentEditor, markerMatcher)
+    ]);
+  }
+
+  /**
+   * Registers a handler, replacing any handler already registered for the same file type
+   * @param handler The file handler to register
+   */
+  public register(handler: IFileHandler): void {
+    const fileType = handler.getFileType();
+
+    if (this.handlers.has(fileType)) {
+      this.logger.logDebug('Replacing registered file handler', { fileType });
+    }
+
+    this.handlers.set(fileType, handler);
+  }
+
+  /**
+   * Removes the handler registered for a file type
+   * @param fileType The file type to remove
+   * @returns true if a handler was removed
+   */
+  public unregister(fileType: SupportedFileType): boolean {
+    return this.handlers.delete(fileType);
+  }
+
+  /**
+   * Gets the handler registered for a file type
+   * @param fileType The file type to look up
+   * @returns The registered handler, or undefined if there is none
+   */
+  public getHandler(fileType: SupportedFileType): IFileHandler | undefined {
+    return this.handlers.get(fileType);
+  }
+
+  /**
+   * Finds the handler for a document, matching the file extension first and the language ID second
+   * When several handlers claim the same extension or language ID, the first registered one wins
+   * @param document The VS Code text document to find a handler for
+   * @returns The matching handler, or undefined if no handler supports the document
+   */
+  public getHandlerForDocument(document: DocumentText): IFileHandler | undefined {
+    const handlers = this.getHandlers();
+    const extensionMatch = document.fileName.match(/\.([^.]+)$/);
+
+    if (extensionMatch) {
+      const extension = extensionMatch[1].toLowerCase();
+      const handler = handlers.find(candidate => candidate.getExtensions().includes(extension));
+      if (handler) {
+        return handler;
+      }
+    }
+
+    // Fallback to language ID if extension detection fails
+    return handlers.find(candidate => candidate.getLanguageIds().includes(document.languageId));
+  }
+
+  /**
+   * Gets all registered handlers in registration order
+   * @returns Array of registered handlers
+   */
+  public getHandlers(): IFileHandler[] {
+    return Array.from(this.handlers.values());
+  }
+
+  /**
+   * Gets the file types that have a registered handler
+   * @returns Array of registered file types
+   */
+  public getFileTypes(): SupportedFileType[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Gets the registered file types that the dotlog.supportedFileTypes setting enables
+   * IDs without a registered handler are ignored.
+   * @param supportedFileTypes The setting's file types, or null to enable every registered type
+   * @returns Array of enabled file types in registration order
+   */
+  public getEnabledFileTypes(supportedFileTypes: SupportedFileType[] | null): SupportedFileType[] {
+    const fileTypes = this.getFileTypes();
+    return supportedFileTypes ? fileTypes.filter(fileType => supportedFileTypes.includes(fileType)) : fileTypes;
+  }
+
+  /**
+   * Gets every file extension claimed by a registered handler
+   * @returns Set of file extensions without the dot
+   */
+  public getExtensions(): Set<string> {
+    return new Set(this.getHandlers().flatMap(handler => handler.getExtensions()));
+  }
+}
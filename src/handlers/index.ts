@@ -2,4 +2,8 @@
 export { BaseFileHandler } from './baseFileHandler';
 export { TextFileHandler } from './textFileHandler';
 export { LogFileHandler } from './logFileHandler';
-export { MarkdownFileHandler } from './markdownFileHandler';
\ No newline at end of file
+export { MarkdownFileHandler } from './markdownFileHandler';
+export { AsciiDocFileHandler } from './asciiDocFileHandler';
+export { RestructuredTextFileHandler } from './restructuredTextFileHandler';
+export { OrgFileHandler } from './orgFileHandler';
+export { HandlerRegistry } from './handlerRegistry';
\ No newline at end of file
@@ -1,32 +1,38 @@
-import * as vscode from 'vscode';
 import { BaseFileHandler } from './baseFileHandler';
-import { SupportedFileType, IDocumentEditor } from '../types';
+import { SupportedFileType, IDocumentEditor, ILogMarkerMatcher } from '../types';
 
 /**
  * File handler for .log files that adds plain text timestamps
  */
 export class LogFileHandler extends BaseFileHandler {
+  public static readonly FILE_TYPE = 'log';
 
-  constructor(documentEditor: IDocumentEditor) {
-    super(documentEditor);
+  constructor(documentEditor: IDocumentEditor, markerMatcher?: ILogMarkerMatcher) {
+    super(documentEditor, markerMatcher);
   }
 
   /**
-   * Determines if this handler can process the given document
-   * @param document The VS Code text document to check
-   * @returns true if document is a .log file with .LOG prefix
+   * Returns the file type this handler supports
+   * @returns LogFileHandler.FILE_TYPE
    */
-  public canHandle(document: vscode.TextDocument): boolean {
-    const extension = this.getFileExtension(document);
-    return extension === 'log' && this.hasLogPrefix(document);
+  public getFileType(): SupportedFileType {
+    return LogFileHandler.FILE_TYPE;
   }
 
   /**
-   * Returns the file type this handler supports
-   * @returns SupportedFileType.LOG
+   * Returns the file extensions this handler supports
+   * @returns ['log']
    */
-  public getFileType(): SupportedFileType {
-    return SupportedFileType.LOG;
+  public getExtensions(): string[] {
+    return ['log'];
+  }
+
+  /**
+   * Returns the VS Code language IDs this handler supports
+   * @returns ['log']
+   */
+  public getLanguageIds(): string[] {
+    return ['log'];
   }
 
   /**
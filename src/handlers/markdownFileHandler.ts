@@ -1,41 +1,70 @@
-import * as vscode from 'vscode';
 import { BaseFileHandler } from './baseFileHandler';
-import { SupportedFileType, IDocumentEditor } from '../types';
+import { SupportedFileType, IDocumentEditor, ILogMarkerMatcher, MarkerSearchOptions, DocumentText } from '../types';
 
 /**
  * File handler for .md files that adds timestamps formatted as heading 2 (##)
  */
 export class MarkdownFileHandler extends BaseFileHandler {
+  public static readonly FILE_TYPE = 'md';
+  private static readonly DEFAULT_HEADING_LEVEL = 2;
 
-  constructor(documentEditor: IDocumentEditor) {
-    super(documentEditor);
+  constructor(documentEditor: IDocumentEditor, markerMatcher?: ILogMarkerMatcher) {
+    super(documentEditor, markerMatcher);
   }
 
   /**
-   * Determines if this handler can process the given document
-   * @param document The VS Code text document to check
-   * @returns true if document is a .md file with .LOG prefix
+   * Returns the file type this handler supports
+   * @returns MarkdownFileHandler.FILE_TYPE
    */
-  public canHandle(document: vscode.TextDocument): boolean {
-    const extension = this.getFileExtension(document);
-    return extension === 'md' && this.hasLogPrefix(document);
+  public getFileType(): SupportedFileType {
+    return MarkdownFileHandler.FILE_TYPE;
   }
 
   /**
-   * Returns the file type this handler supports
-   * @returns SupportedFileType.MARKDOWN
+   * Returns the file extensions this handler supports
+   * @returns ['md']
    */
-  public getFileType(): SupportedFileType {
-    return SupportedFileType.MARKDOWN;
+  public getExtensions(): string[] {
+    return ['md'];
+  }
+
+  /**
+   * Returns the VS Code language IDs this handler supports
+   * @returns ['markdown']
+   */
+  public getLanguageIds(): string[] {
+    return ['markdown'];
+  }
+
+  /**
+   * Markdown notes often start with YAML front matter, so the marker may follow it
+   * or be given as a `dotlog: true` entry inside it
+   * @returns Marker search options with front matter enabled
+   */
+  public getMarkerSearchOptions(): MarkerSearchOptions {
+    return { frontMatter: true };
   }
 
   /**
    * Formats the timestamp for markdown files
-   * Adds the timestamp as a heading 2 (##) on a new line with a trailing newline for user input
+   * Adds the timestamp as a heading 2 (##) on a new line with a trailing newline for user input,
+   * or at the level set by a `heading=` directive on the trigger line
    * @param timestamp The raw timestamp string in "YYYY-MM-DD HH:MM AM/PM" format
+   * @param document Optional document whose trigger line may set the heading level
    * @returns The formatted timestamp as markdown heading with newlines
    */
-  public formatTimestamp(timestamp: string): string {
-    return `\n## ${timestamp}\n`;
+  public formatTimestamp(timestamp: string, document?: DocumentText): string {
+    const level = (document && this.getDirectives(document).headingLevel) || MarkdownFileHandler.DEFAULT_HEADING_LEVEL;
+    return `\n${'#'.repeat(level)} ${timestamp}\n`;
+  }
+
+  /**
+   * Reads the timestamp from a Markdown heading
+   * @param line The text of the entry's first line
+   * @returns The heading text, or null if the line is not an ATX heading
+   */
+  protected extractTimestamp(line: string): string | null {
+    const match = line.match(/^#+\s+(.+?)\s*$/);
+    return match ? match[1] : null;
   }
-}
\ No newline at end of file
+}
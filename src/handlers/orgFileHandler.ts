@@ -0,0 +1,109 @@
+import { BaseFileHandler } from './baseFileHandler';
+import {
+  SupportedFileType,
+  IDocumentEditor,
+  ILogMarkerMatcher,
+  IConfigurationService,
+  MarkerSearchOptions,
+  TimestampOptions,
+  TimeZoneSuffix,
+  DocumentText
+} from '../types';
+import { ConfigurationService } from '../services/configurationService';
+
+/**
+ * File handler for Org files that adds headlines with active Org timestamps (* <2026-10-19 Mon 14:30>)
+ */
+export class OrgFileHandler extends BaseFileHandler {
+  public static readonly FILE_TYPE = 'org';
+
+  // Active Org timestamp; Org expects English day names and a 24-hour clock
+  public static readonly TIMESTAMP_FORMAT = '<YYYY-MM-DD ddd HH:mm>';
+
+  private static readonly HEADER_PATTERN = /^#\+[A-Za-z][\w-]*:/;
+
+  private configurationService: IConfigurationService;
+
+  constructor(
+    documentEditor: IDocumentEditor,
+    markerMatcher?: ILogMarkerMatcher,
+    configurationService: IConfigurationService = ConfigurationService.getInstance()
+  ) {
+    super(documentEditor, markerMatcher);
+    this.configurationService = configurationService;
+  }
+
+  /**
+   * Returns the file type this handler supports
+   * @returns OrgFileHandler.FILE_TYPE
+   */
+  public getFileType(): SupportedFileType {
+    return OrgFileHandler.FILE_TYPE;
+  }
+
+  /**
+   * Returns the file extensions this handler supports
+   * @returns ['org']
+   */
+  public getExtensions(): string[] {
+    return ['org'];
+  }
+
+  /**
+   * Returns the VS Code language IDs this handler supports
+   * @returns ['org']
+   */
+  public getLanguageIds(): string[] {
+    return ['org'];
+  }
+
+  /**
+   * Org files usually start with `#+TITLE:`-style keywords, so the marker may follow them,
+   * and it may be written as a comment (`# .LOG`)
+   * @returns Marker search options skipping keyword lines and accepting `#` comments
+   */
+  public getMarkerSearchOptions(): MarkerSearchOptions {
+    return {
+      headerPattern: OrgFileHandler.HEADER_PATTERN,
+      commentPrefixes: ['#']
+    };
+  }
+
+  /**
+   * Org timestamps have a fixed syntax, so the configured format and suffix are replaced
+   * A `tz=` directive on the trigger line still applies; a `format=` directive is ignored.
+   * @param document Optional document whose trigger line may set directives
+   * @returns Timestamp options with the active Org timestamp format
+   */
+  public getTimestampOptions(document?: DocumentText): TimestampOptions {
+    return {
+      ...super.getTimestampOptions(document),
+      format: OrgFileHandler.TIMESTAMP_FORMAT,
+      timeZoneSuffix: TimeZoneSuffix.NONE
+    };
+  }
+
+  /**
+   * Formats the timestamp for Org files
+   * Adds the timestamp as a headline at the configured level with a trailing newline for user input
+   * A `heading=` directive on the trigger line takes precedence over dotlog.orgHeadingLevel.
+   * @param timestamp The Org timestamp string, e.g. "<2026-10-19 Mon 14:30>"
+   * @param document Optional document, used to resolve the heading level for its workspace folder
+   * @returns The formatted timestamp as Org headline with newlines
+   */
+  public formatTimestamp(timestamp: string, document?: DocumentText): string {
+    const level = (document && this.getDirectives(document).headingLevel) ||
+      this.configurationService.getConfig(document?.uri).orgHeadingLevel;
+    return `\n${'*'.repeat(level)} ${timestamp}\n`;
+  }
+
+  /**
+   * Reads the timestamp from an Org headline
+   * @param line The text of the entry's first line
+   * @returns The headline text, or null if the line is not a headline
+   */
+  protected extractTimestamp(line: string): string | null {
+    const match = line.match(/^\*+\s+(.+?)\s*$/);
+    return match ? match[1] : null;
+  }
+}
@@ -0,0 +1,81 @@
+import { BaseFileHandler } from './baseFileHandler';
+import { SupportedFileType, IDocumentEditor, ILogMarkerMatcher, MarkerSearchOptions } from '../types';
+
+/**
+ * File handler for reStructuredText files that adds timestamps as section titles underlined with "-"
+ */
+export class RestructuredTextFileHandler extends BaseFileHandler {
+  public static readonly FILE_TYPE = 'rst';
+  private static readonly UNDERLINE_CHARACTER = '-';
+  // East Asian wide and fullwidth characters take two columns, as in docutils
+  private static readonly WIDE_CHARACTER = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA000-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+  constructor(documentEditor: IDocumentEditor, markerMatcher?: ILogMarkerMatcher) {
+    super(documentEditor, markerMatcher);
+  }
+
+  /**
+   * Returns the file type this handler supports
+   * @returns RestructuredTextFileHandler.FILE_TYPE
+   */
+  public getFileType(): SupportedFileType {
+    return RestructuredTextFileHandler.FILE_TYPE;
+  }
+
+  /**
+   * Returns the file extensions this handler supports
+   * @returns ['rst']
+   */
+  public getExtensions(): string[] {
+    return ['rst'];
+  }
+
+  /**
+   * Returns the VS Code language IDs this handler supports
+   * @returns ['restructuredtext']
+   */
+  public getLanguageIds(): string[] {
+    return ['restructuredtext'];
+  }
+
+  /**
+   * The marker may be written as a comment (`.. .LOG`) so it doesn't show in the rendered document
+   * @returns Marker search options accepting `..` comments
+   */
+  public getMarkerSearchOptions(): MarkerSearchOptions {
+    return { commentPrefixes: ['..'] };
+  }
+
+  /**
+   * Formats the timestamp for reStructuredText files
+   * Adds the timestamp as a section title underlined to its full width, with a trailing newline for user input
+   * @param timestamp The raw timestamp string
+   * @returns The formatted timestamp as reStructuredText section title with newlines
+   */
+  public formatTimestamp(timestamp: string): string {
+    const underline = RestructuredTextFileHandler.UNDERLINE_CHARACTER.repeat(
+      RestructuredTextFileHandler.getDisplayWidth(timestamp)
+    );
+    return `\n${timestamp}\n${underline}\n`;
+  }
+
+  /**
+   * Calculates the column width of a title, since docutils rejects underlines shorter than the title
+   * @param text The title text
+   * @returns Number of columns the text occupies
+   */
+  private static getDisplayWidth(text: string): number {
+    return Array.from(text).reduce(
+      (width, character) => width + (RestructuredTextFileHandler.WIDE_CHARACTER.test(character) ? 2 : 1),
+      0
+    );
+  }
+
+  /**
+   * Entries are a section title followed by its underline
+   * @returns 2
+   */
+  public getEntryLineCount(): number {
+    return 2;
+  }
+}
@@ -1,32 +1,38 @@
-import * as vscode from 'vscode';
 import { BaseFileHandler } from './baseFileHandler';
-import { SupportedFileType, IDocumentEditor } from '../types';
+import { SupportedFileType, IDocumentEditor, ILogMarkerMatcher } from '../types';
 
 /**
  * File handler for .txt files that adds plain text timestamps
  */
 export class TextFileHandler extends BaseFileHandler {
+  public static readonly FILE_TYPE = 'txt';
 
-  constructor(documentEditor: IDocumentEditor) {
-    super(documentEditor);
+  constructor(documentEditor: IDocumentEditor, markerMatcher?: ILogMarkerMatcher) {
+    super(documentEditor, markerMatcher);
   }
 
   /**
-   * Determines if this handler can process the given document
-   * @param document The VS Code text document to check
-   * @returns true if document is a .txt file with .LOG prefix
+   * Returns the file type this handler supports
+   * @returns TextFileHandler.FILE_TYPE
    */
-  public canHandle(document: vscode.TextDocument): boolean {
-    const extension = this.getFileExtension(document);
-    return extension === 'txt' && this.hasLogPrefix(document);
+  public getFileType(): SupportedFileType {
+    return TextFileHandler.FILE_TYPE;
   }
 
   /**
-   * Returns the file type this handler supports
-   * @returns SupportedFileType.TEXT
+   * Returns the file extensions this handler supports
+   * @returns ['txt']
    */
-  public getFileType(): SupportedFileType {
-    return SupportedFileType.TEXT;
+  public getExtensions(): string[] {
+    return ['txt'];
+  }
+
+  /**
+   * Returns the VS Code language IDs this handler supports
+   * @returns ['plaintext']
+   */
+  public getLanguageIds(): string[] {
+    return ['plaintext'];
   }
 
   /**
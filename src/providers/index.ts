@@ -0,0 +1,5 @@
+// Provider exports
+export { LogEntrySymbolProvider } from './logEntrySymbolProvider';
+export { LogEntryFoldingProvider } from './logEntryFoldingProvider';
+export { LogExplorerProvider } from './logExplorerProvider';
+export { LogTimelineProvider } from './logTimelineProvider';
\ No newline at end of file
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { ILogEntryParser, IContentAnalyzer } from '../types';
+import { LogEntrySymbolProvider } from './logEntrySymbolProvider';
+
+/**
+ * Folding range provider that makes each entry of a .LOG document foldable
+ * A range runs from the entry's timestamp to its last non-blank line before the next entry.
+ */
+export class LogEntryFoldingProvider implements vscode.FoldingRangeProvider {
+  constructor(
+    private entryParser: ILogEntryParser,
+    private contentAnalyzer: IContentAnalyzer
+  ) {}
+
+  /**
+   * Registers the provider with VS Code for the same documents as the entry symbols
+   * @returns Disposable that unregisters the provider
+   */
+  public register(): vscode.Disposable {
+    return vscode.languages.registerFoldingRangeProvider(LogEntrySymbolProvider.DOCUMENT_SELECTOR, this);
+  }
+
+  /**
+   * Returns a folding range for each entry of a .LOG document that spans more than one line
+   * @param document The document to fold
+   * @returns Entry folding ranges, or an empty array if the document has no trigger marker
+   */
+  public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    if (!this.contentAnalyzer.shouldProcessDocument(document)) {
+      return [];
+    }
+
+    return this.entryParser.parseEntries(document)
+      .filter(entry => entry.range.end.line > entry.range.start.line)
+      .map(entry => new vscode.FoldingRange(entry.range.start.line, entry.range.end.line));
+  }
+}
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { ILogEntryParser, IContentAnalyzer } from '../types';
+
+/**
+ * Document symbol provider listing the entries of .LOG documents
+ * Each entry becomes a symbol named by its timestamp with its first line as detail, which gives
+ * plain text and log files an outline, breadcrumbs and Go to Symbol.
+ */
+export class LogEntrySymbolProvider implements vscode.DocumentSymbolProvider {
+  // Markdown already has heading symbols; other formats get theirs from language extensions
+  public static readonly DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+    { language: 'plaintext' },
+    { language: 'log' }
+  ];
+
+  constructor(
+    private entryParser: ILogEntryParser,
+    private contentAnalyzer: IContentAnalyzer
+  ) {}
+
+  /**
+   * Registers the provider with VS Code
+   * @returns Disposable that unregisters the provider
+   */
+  public register(): vscode.Disposable {
+    return vscode.languages.registerDocumentSymbolProvider(LogEntrySymbolProvider.DOCUMENT_SELECTOR, this, {
+      label: 'dotLOG'
+    });
+  }
+
+  /**
+   * Returns a symbol for each entry of a .LOG document
+   * @param document The document to list entries for
+   * @returns Entry symbols, or an empty array if the document has no trigger marker
+   */
+  public provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    if (!this.contentAnalyzer.shouldProcessDocument(document)) {
+      return [];
+    }
+
+    return this.entryParser.parseEntries(document).map(entry => new vscode.DocumentSymbol(
+      entry.timestamp,
+      entry.title,
+      vscode.SymbolKind.Event,
+      entry.range,
+      entry.headerRange
+    ));
+  }
+}
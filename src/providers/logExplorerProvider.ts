@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  ILogFileIndex,
+  ITimestampService,
+  IConfigurationService,
+  LogFile
+} from '../types';
+
+/**
+ * Tree data provider for the Log Explorer view, listing the .LOG files in the workspace
+ * Files with the most recent entries come first; clicking a file opens it.
+ */
+export class LogExplorerProvider implements vscode.TreeDataProvider<LogFile> {
+  public static readonly VIEW_ID = 'dotlog.logExplorer';
+  public static readonly REFRESH_COMMAND_ID = 'dotlog.refreshLogExplorer';
+
+  public readonly onDidChangeTreeData: vscode.Event<void>;
+
+  constructor(
+    private fileIndex: ILogFileIndex,
+    private timestampService: ITimestampService,
+    private configurationService: IConfigurationService
+  ) {
+    this.onDidChangeTreeData = fileIndex.onDidChange;
+  }
+
+  /**
+   * Registers the tree view and its refresh command
+   * @returns Disposable that unregisters the view and command
+   */
+  public register(): vscode.Disposable {
+    return vscode.Disposable.from(
+      vscode.window.createTreeView(LogExplorerProvider.VIEW_ID, { treeDataProvider: this }),
+      vscode.commands.registerCommand(LogExplorerProvider.REFRESH_COMMAND_ID, () => this.fileIndex.refresh())
+    );
+  }
+
+  /**
+   * Describes a file with its entry count and the date of its last entry
+   * @param file The .LOG file
+   * @returns Tree item that opens the file when clicked
+   */
+  public getTreeItem(file: LogFile): vscode.TreeItem {
+    const item = new vscode.TreeItem(path.basename(file.uri.path), vscode.TreeItemCollapsibleState.None);
+    const lastDate = LogExplorerProvider.getLastEntryDate(file);
+    const entryCount = file.entries.length === 1 ? '1 entry' : `${file.entries.length} entries`;
+    const lastEntryDate = lastDate
+      ? this.timestampService.formatTimestamp(lastDate, this.configurationService.getTimestampOptions(file.uri))
+      : undefined;
+
+    item.resourceUri = file.uri;
+    item.description = lastEntryDate ? `${entryCount} · ${lastEntryDate}` : entryCount;
+    item.tooltip = [
+      vscode.workspace.asRelativePath(file.uri),
+      entryCount,
+      ...(lastEntryDate ? [`Last entry: ${lastEntryDate}`] : [])
+    ].join('\n');
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [file.uri]
+    };
+
+    return item;
+  }
+
+  /**
+   * Lists the .LOG files, most recently written first
+   * @param element The parent element; files have no children
+   * @returns Promise resolving to the files
+   */
+  public async getChildren(element?: LogFile): Promise<LogFile[]> {
+    if (element) {
+      return [];
+    }
+
+    const files = await this.fileIndex.getFiles();
+    return files.sort((a, b) => {
+      const aTime = LogExplorerProvider.getLastEntryDate(a)?.getTime() ?? -Infinity;
+      const bTime = LogExplorerProvider.getLastEntryDate(b)?.getTime() ?? -Infinity;
+      return aTime !== bTime ? bTime - aTime : a.uri.path.localeCompare(b.uri.path);
+    });
+  }
+
+  /**
+   * Finds the date of a file's newest entry, wherever new entries are added in the file
+   * @param file The .LOG file
+   * @returns The newest entry date, or undefined if the file has no entries
+   */
+  private static getLastEntryDate(file: LogFile): Date | undefined {
+    return file.entries.reduce<Date | undefined>(
+      (latest, entry) => !latest || entry.date > latest ? entry.date : latest,
+      undefined
+    );
+  }
+}
@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  ILogFileIndex,
+  ITimestampService,
+  IConfigurationService,
+  LogFile,
+  TimelineEntry,
+  TimelineFilter,
+  TimeZoneSuffix
+} from '../types';
+
+/**
+ * Tree data provider for the Timeline view, merging the entries of all .LOG files in the workspace
+ * Entries are listed newest first and can be filtered by date range, file and text; clicking an
+ * entry opens its file at the entry's timestamp.
+ */
+export class LogTimelineProvider implements vscode.TreeDataProvider<TimelineEntry> {
+  public static readonly VIEW_ID = 'dotlog.timeline';
+  public static readonly FILTER_BY_DATE_COMMAND_ID = 'dotlog.filterTimelineByDate';
+  public static readonly FILTER_BY_FILE_COMMAND_ID = 'dotlog.filterTimelineByFile';
+  public static readonly FILTER_BY_TEXT_COMMAND_ID = 'dotlog.filterTimelineByText';
+  public static readonly CLEAR_FILTERS_COMMAND_ID = 'dotlog.clearTimelineFilters';
+  // Context key that shows the clear filters button
+  public static readonly FILTERED_CONTEXT_KEY = 'dotlog.timelineFiltered';
+
+  private static readonly DAY_FORMAT = 'YYYY-MM-DD';
+  private static readonly DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+  private filter: TimelineFilter = {};
+  private treeView: vscode.TreeView<TimelineEntry> | undefined;
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(
+    private fileIndex: ILogFileIndex,
+    private timestampService: ITimestampService,
+    private configurationService: IConfigurationService
+  ) {}
+
+  /**
+   * Registers the tree view and its filter commands
+   * @returns Disposable that unregisters the view and commands
+   */
+  public register(): vscode.Disposable {
+    this.treeView = vscode.window.createTreeView(LogTimelineProvider.VIEW_ID, { treeDataProvider: this });
+
+    return vscode.Disposable.from(
+      this.treeView,
+      this.changeEmitter,
+      this.fileIndex.onDidChange(() => this.changeEmitter.fire()),
+      vscode.commands.registerCommand(LogTimelineProvider.FILTER_BY_DATE_COMMAND_ID, () => this.pickDateRange()),
+      vscode.commands.registerCommand(LogTimelineProvider.FILTER_BY_FILE_COMMAND_ID, () => this.pickFile()),
+      vscode.commands.registerCommand(LogTimelineProvider.FILTER_BY_TEXT_COMMAND_ID, () => this.enterText()),
+      vscode.commands.registerCommand(LogTimelineProvider.CLEAR_FILTERS_COMMAND_ID, () => this.setFilter({}))
+    );
+  }
+
+  /**
+   * Returns the active filter
+   * @returns A copy of the filter
+   */
+  public getFilter(): TimelineFilter {
+    return { ...this.filter };
+  }
+
+  /**
+   * Replaces the active filter and refreshes the view
+   * @param filter The new filter; empty to show all entries
+   */
+  public setFilter(filter: TimelineFilter): void {
+    this.filter = { ...filter };
+
+    const description = this.describeFilter();
+    if (this.treeView) {
+      this.treeView.description = description;
+    }
+    void vscode.commands.executeCommand('setContext', LogTimelineProvider.FILTERED_CONTEXT_KEY, !!description);
+
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Describes an entry with its date and file
+   * @param item The timeline entry
+   * @returns Tree item that opens the file at the entry when clicked
+   */
+  public getTreeItem(item: TimelineEntry): vscode.TreeItem {
+    const { file, entry } = item;
+    const date = this.timestampService.formatTimestamp(entry.date, this.configurationService.getTimestampOptions(file.uri));
+    const location = `${vscode.workspace.asRelativePath(file.uri)}:${entry.headerRange.start.line + 1}`;
+
+    const treeItem = new vscode.TreeItem(entry.title || entry.timestamp, vscode.TreeItemCollapsibleState.None);
+    treeItem.description = `${date} · ${path.basename(file.uri.path)}`;
+    treeItem.tooltip = [date, location, ...(entry.text ? ['', entry.text] : [])].join('\n');
+    treeItem.iconPath = new vscode.ThemeIcon('note');
+    treeItem.command = {
+      command: 'vscode.open',
+      title: 'Go to Entry',
+      arguments: [file.uri, { selection: new vscode.Range(entry.headerRange.start, entry.headerRange.start) }]
+    };
+
+    return treeItem;
+  }
+
+  /**
+   * Lists the entries of all .LOG files that match the filter
+   * @param element The parent element; entries have no children
+   * @returns Promise resolving to the entries, newest first
+   */
+  public async getChildren(element?: TimelineEntry): Promise<TimelineEntry[]> {
+    if (element) {
+      return [];
+    }
+
+    return this.filterEntries(await this.fileIndex.getFiles());
+  }
+
+  /**
+   * Merges the entries of the given files, applying the active filter
+   * @param files The .LOG files
+   * @returns Matching entries, newest first; entries at the same time keep their file and line order
+   */
+  public filterEntries(files: LogFile[]): TimelineEntry[] {
+    const { fromDay, toDay, fileUri } = this.filter;
+    const text = this.filter.text?.toLowerCase();
+
+    return files
+      .filter(file => !fileUri || file.uri.toString() === fileUri.toString())
+      .flatMap(file => file.entries.map(entry => ({ file, entry })))
+      .filter(({ file, entry }) => {
+        const day = fromDay || toDay ? this.toDay(entry.date, file.uri) : '';
+        return (!fromDay || day >= fromDay) &&
+          (!toDay || day <= toDay) &&
+          (!text || `${entry.timestamp}\n${entry.text}`.toLowerCase().includes(text));
+      })
+      .sort((a, b) => b.entry.date.getTime() - a.entry.date.getTime() ||
+        a.file.uri.path.localeCompare(b.file.uri.path) ||
+        a.entry.range.start.line - b.entry.range.start.line);
+  }
+
+  /**
+   * Asks for a date range and applies it to the filter
+   */
+  private async pickDateRange(): Promise<void> {
+    const today = this.toDay(new Date());
+    const ranges: (vscode.QuickPickItem & { fromDay?: string; toDay?: string; custom?: boolean })[] = [
+      { label: 'Today', fromDay: today, toDay: today },
+      { label: 'Last 7 Days', fromDay: LogTimelineProvider.addDays(today, -6), toDay: today },
+      { label: 'Last 30 Days', fromDay: LogTimelineProvider.addDays(today, -29), toDay: today },
+      { label: 'Custom Range...', custom: true },
+      { label: 'Any Date' }
+    ];
+
+    const range = await vscode.window.showQuickPick(ranges, { title: 'dotLOG: Filter Timeline by Date' });
+    if (!range) {
+      return;
+    }
+
+    if (!range.custom) {
+      this.setFilter({ ...this.filter, fromDay: range.fromDay, toDay: range.toDay });
+      return;
+    }
+
+    const fromDay = await this.enterDay('From date (YYYY-MM-DD), empty for no start', this.filter.fromDay);
+    if (fromDay === undefined) {
+      return;
+    }
+    const toDay = await this.enterDay('To date (YYYY-MM-DD), empty for no end', this.filter.toDay);
+    if (toDay === undefined) {
+      return;
+    }
+
+    this.setFilter({ ...this.filter, fromDay: fromDay || undefined, toDay: toDay || undefined });
+  }
+
+  /**
+   * Asks for a day of a custom date range
+   * @param prompt The input box prompt
+   * @param value The initial value
+   * @returns The day, an empty string for an open end, or undefined if the input was cancelled
+   */
+  private async enterDay(prompt: string, value: string | undefined): Promise<string | undefined> {
+    const day = await vscode.window.showInputBox({
+      title: 'dotLOG: Filter Timeline by Date',
+      prompt,
+      value,
+      placeHolder: this.toDay(new Date()),
+      validateInput: input => input.trim() === '' || LogTimelineProvider.isValidDay(input.trim())
+        ? undefined
+        : 'Enter a date as YYYY-MM-DD'
+    });
+
+    return day?.trim();
+  }
+
+  /**
+   * Asks for a .LOG file and applies it to the filter
+   */
+  private async pickFile(): Promise<void> {
+    const files = await this.fileIndex.getFiles();
+    const items: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = [
+      { label: 'All Files' },
+      ...files
+        .map(file => ({
+          label: path.basename(file.uri.path),
+          description: vscode.workspace.asRelativePath(file.uri),
+          uri: file.uri
+        }))
+        .sort((a, b) => a.description.localeCompare(b.description))
+    ];
+
+    const item = await vscode.window.showQuickPick(items, {
+      title: 'dotLOG: Filter Timeline by File',
+      matchOnDescription: true
+    });
+    if (item) {
+      this.setFilter({ ...this.filter, fileUri: item.uri });
+    }
+  }
+
+  /**
+   * Asks for text the entries must contain and applies it to the filter
+   */
+  private async enterText(): Promise<void> {
+    const text = await vscode.window.showInputBox({
+      title: 'dotLOG: Filter Timeline by Text',
+      prompt: 'Show entries containing this text, empty for all entries',
+      value: this.filter.text
+    });
+
+    if (text !== undefined) {
+      this.setFilter({ ...this.filter, text: text.trim() || undefined });
+    }
+  }
+
+  /**
+   * Summarizes the active filter for the view's title bar
+   * @returns The summary, or undefined if no filter is active
+   */
+  private describeFilter(): string | undefined {
+    const { fromDay, toDay, fileUri, text } = this.filter;
+    const parts: string[] = [];
+
+    if (fromDay && toDay) {
+      parts.push(fromDay === toDay ? fromDay : `${fromDay} – ${toDay}`);
+    } else if (fromDay) {
+      parts.push(`since ${fromDay}`);
+    } else if (toDay) {
+      parts.push(`until ${toDay}`);
+    }
+    if (fileUri) {
+      parts.push(path.basename(fileUri.path));
+    }
+    if (text) {
+      parts.push(`"${text}"`);
+    }
+
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+  }
+
+  /**
+   * Formats a date as a YYYY-MM-DD day in the configured time zone
+   * @param date The date
+   * @param scope Optional file whose workspace folder may set its own time zone
+   * @returns The day, which compares correctly as a string
+   */
+  private toDay(date: Date, scope?: vscode.Uri): string {
+    return this.timestampService.formatTimestamp(date, {
+      format: LogTimelineProvider.DAY_FORMAT,
+      timeZone: this.configurationService.getTimestampOptions(scope).timeZone,
+      timeZoneSuffix: TimeZoneSuffix.NONE
+    });
+  }
+
+  /**
+   * Checks that text is an existing YYYY-MM-DD day
+   * @param day The text to check
+   * @returns true if the day exists
+   */
+  private static isValidDay(day: string): boolean {
+    const match = LogTimelineProvider.DAY_PATTERN.exec(day);
+    return !!match && LogTimelineProvider.addDays(day, 0) === day;
+  }
+
+  /**
+   * Moves a YYYY-MM-DD day by a number of calendar days
+   * @param day The day
+   * @param days Days to add, negative to go back
+   * @returns The resulting day
+   */
+  private static addDays(day: string, days: number): string {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, date + days)).toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import {
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions,
+  TimeZoneSuffix,
+  TriggerMode,
+  CoalesceAction,
+  InsertPosition,
+  LogLevel,
+  isTimeZoneSuffix,
+  isTriggerMode,
+  isCoalesceAction,
+  isInsertPosition,
+  isLogLevel
+} from '../types';
+import { TimestampService } from './timestampService';
+import { LogMarkerMatcher } from './logMarkerMatcher';
+
+/**
+ * Configuration service that reads dotLOG settings from the "dotlog" configuration section
+ * Supports per-workspace-folder overrides by resolving settings against a resource scope
+ */
+export class ConfigurationService implements IConfigurationService {
+  public static readonly SECTION = 'dotlog';
+
+  private static instance: ConfigurationService | null = null;
+  private static readonly DEFAULT_CONFIG: ExtensionConfig = {
+    enabled: true,
+    timestampFormat: TimestampService.DEFAULT_FORMAT,
+    locale: '',
+    timeZone: '',
+    timeZoneSuffix: TimeZoneSuffix.NONE,
+    supportedFileTypes: null,
+    triggerMarkers: [LogMarkerMatcher.DEFAULT_MARKER],
+    caseInsensitiveMarkers: false,
+    orgHeadingLevel: 1,
+    trigger: TriggerMode.OPEN,
+    focusIdleMinutes: 30,
+    coalesceWindowMinutes: 0,
+    coalesceAction: CoalesceAction.SKIP,
+    insertPosition: InsertPosition.BOTTOM,
+    performanceThresholdMs: 100,
+    minimumStampIntervalSeconds: 0,
+    journalFolder: 'journal',
+    journalPathPattern: 'YYYY/MM/YYYY-MM-DD.md',
+    journalTemplate: '',
+    entryTemplates: {},
+    enableLogging: true,
+    logLevel: LogLevel.INFO
+  };
+
+  private changeEmitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+  private disposable: vscode.Disposable | null = null;
+
+  /**
+   * Event fired when any dotlog.* setting changes
+   */
+  public readonly onDidChangeConfiguration: vscode.Event<vscode.ConfigurationChangeEvent> = this.changeEmitter.event;
+
+  private constructor() {
+    this.disposable = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(ConfigurationService.SECTION)) {
+        this.changeEmitter.fire(event);
+      }
+    });
+  }
+
+  /**
+   * Gets the singleton instance of ConfigurationService
+   * @returns ConfigurationService instance
+   */
+  public static getInstance(): ConfigurationService {
+    if (!ConfigurationService.instance) {
+      ConfigurationService.instance = new ConfigurationService();
+    }
+    return ConfigurationService.instance;
+  }
+
+  /**
+   * Reads the extension configuration, applying workspace folder overrides for the given scope
+   * @param scope Optional resource (document URI or workspace folder) to resolve settings for
+   * @returns The validated extension configuration
+   */
+  public getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    const defaults = ConfigurationService.DEFAULT_CONFIG;
+    const configuration = vscode.workspace.getConfiguration(ConfigurationService.SECTION, scope);
+
+    // File type IDs are owned by the registered handlers, which decide which of them exist
+    const configuredFileTypes = configuration.get<string[] | null>('supportedFileTypes', defaults.supportedFileTypes);
+    const supportedFileTypes = Array.isArray(configuredFileTypes)
+      ? configuredFileTypes
+        .filter(fileType => typeof fileType === 'string' && fileType.trim().length > 0)
+        .map(fileType => fileType.trim())
+      : null;
+
+    const triggerMarkers = configuration
+      .get<string[]>('triggerMarkers', defaults.triggerMarkers)
+      .filter(marker => typeof marker === 'string' && marker.trim().length > 0)
+      .map(marker => marker.trim());
+
+    const orgHeadingLevel = configuration.get<number>('orgHeadingLevel', defaults.orgHeadingLevel);
+    const trigger = configuration.get<string>('trigger', defaults.trigger);
+    const focusIdleMinutes = configuration.get<number>('focusIdleMinutes', defaults.focusIdleMinutes);
+    const coalesceWindowMinutes = configuration.get<number>('coalesceWindowMinutes', defaults.coalesceWindowMinutes);
+    const coalesceAction = configuration.get<string>('coalesceAction', defaults.coalesceAction);
+    const insertPosition = configuration.get<string>('insertPosition', defaults.insertPosition);
+    const performanceThresholdMs = configuration.get<number>('performanceThresholdMs', defaults.performanceThresholdMs);
+    const minimumStampIntervalSeconds = configuration.get<number>('minimumStampIntervalSeconds', defaults.minimumStampIntervalSeconds);
+    const logLevel = configuration.get<string>('logLevel', defaults.logLevel);
+    const timeZoneSuffix = configuration.get<string>('timeZoneSuffix', defaults.timeZoneSuffix);
+    const journalPathPattern = configuration.get<string>('journalPathPattern', defaults.journalPathPattern).trim();
+    const entryTemplates = configuration.get<Record<string, unknown>>('entryTemplates', defaults.entryTemplates);
+
+    return {
+      enabled: configuration.get<boolean>('enabled', defaults.enabled),
+      timestampFormat: configuration.get<string>('timestampFormat', defaults.timestampFormat),
+      locale: configuration.get<string>('locale', defaults.locale).trim(),
+      timeZone: configuration.get<string>('timeZone', defaults.timeZone).trim(),
+      timeZoneSuffix: isTimeZoneSuffix(timeZoneSuffix) ? timeZoneSuffix : defaults.timeZoneSuffix,
+      supportedFileTypes,
+      triggerMarkers: triggerMarkers.length > 0 ? triggerMarkers : [...defaults.triggerMarkers],
+      caseInsensitiveMarkers: configuration.get<boolean>('caseInsensitiveMarkers', defaults.caseInsensitiveMarkers),
+      orgHeadingLevel: Number.isInteger(orgHeadingLevel) && orgHeadingLevel >= 1 ? orgHeadingLevel : defaults.orgHeadingLevel,
+      trigger: isTriggerMode(trigger) ? trigger : defaults.trigger,
+      focusIdleMinutes: Math.max(0, focusIdleMinutes),
+      coalesceWindowMinutes: Math.max(0, coalesceWindowMinutes),
+      coalesceAction: isCoalesceAction(coalesceAction) ? coalesceAction : defaults.coalesceAction,
+      insertPosition: isInsertPosition(insertPosition) ? insertPosition : defaults.insertPosition,
+      performanceThresholdMs: performanceThresholdMs > 0 ? performanceThresholdMs : defaults.performanceThresholdMs,
+      minimumStampIntervalSeconds: Math.max(0, minimumStampIntervalSeconds),
+      journalFolder: configuration.get<string>('journalFolder', defaults.journalFolder).trim(),
+      journalPathPattern: journalPathPattern || defaults.journalPathPattern,
+      journalTemplate: configuration.get<string>('journalTemplate', defaults.journalTemplate),
+      entryTemplates: ConfigurationService.readTemplates(entryTemplates),
+      enableLogging: configuration.get<boolean>('enableLogging', defaults.enableLogging),
+      logLevel: isLogLevel(logLevel) ? logLevel : defaults.logLevel
+    };
+  }
+
+  /**
+   * Reads the timestamp settings for a resource as options for the timestamp service
+   * @param scope Optional resource (document URI or workspace folder) to resolve settings for
+   * @returns Format, time zone and time zone suffix for new timestamps
+   */
+  public getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    const config = this.getConfig(scope);
+    return {
+      format: config.timestampFormat,
+      timeZone: config.timeZone,
+      timeZoneSuffix: config.timeZoneSuffix
+    };
+  }
+
+  /**
+   * Reads the .LOG trigger marker settings for a resource
+   * @param scope Optional resource (document URI or workspace folder) to resolve settings for
+   * @returns Trigger markers and whether they are matched case-insensitively
+   */
+  public getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    const config = this.getConfig(scope);
+    return {
+      markers: config.triggerMarkers,
+      caseInsensitive: config.caseInsensitiveMarkers
+    };
+  }
+
+  /**
+   * Gets the default configuration values
+   * @returns A copy of the default configuration
+   */
+  public static getDefaultConfig(): ExtensionConfig {
+    return {
+      ...ConfigurationService.DEFAULT_CONFIG,
+      triggerMarkers: [...ConfigurationService.DEFAULT_CONFIG.triggerMarkers],
+      entryTemplates: { ...ConfigurationService.DEFAULT_CONFIG.entryTemplates }
+    };
+  }
+
+  /**
+   * Disposes of the configuration listener and event emitter
+   */
+  public dispose(): void {
+    if (this.disposable) {
+      this.disposable.dispose();
+      this.disposable = null;
+    }
+    this.changeEmitter.dispose();
+    ConfigurationService.instance = null;
+  }
+
+  /**
+   * Validates the entryTemplates setting, joining templates written as arrays of lines
+   * @param templates The setting's value
+   * @returns Templates by file type, glob pattern or name; entries that are not text are dropped
+   */
+  private static readTemplates(templates: Record<string, unknown>): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    for (const [key, template] of Object.entries(templates || {})) {
+      if (typeof template === 'string') {
+        result[key] = template;
+      } else if (Array.isArray(template) && template.every(line => typeof line === 'string')) {
+        result[key] = template.join('\n');
+      }
+    }
+
+    return result;
+  }
+}
@@ -1,41 +1,56 @@
 import * as vscode from 'vscode';
 import {
   IContentAnalyzer,
+  ILogMarkerMatcher,
+  IHandlerRegistry,
   SupportedFileType,
   DocumentContext,
+  DocumentText,
+  LogDirectives,
   OperationResult,
   ProcessingState,
   ErrorCode
 } from '../types';
+import { LogMarkerMatcher } from './logMarkerMatcher';
+import { ConfigurationService } from './configurationService';
+import { DocumentEditor } from './documentEditor';
+import { HandlerRegistry } from '../handlers/handlerRegistry';
 
 /**
  * ContentAnalyzer service for detecting .LOG prefix in documents and analyzing file types
  */
 export class ContentAnalyzer implements IContentAnalyzer {
-  private static readonly LOG_PREFIX = '.LOG';
-  private static readonly SUPPORTED_EXTENSIONS = new Set(['txt', 'log', 'md']);
+  private markerMatcher: ILogMarkerMatcher;
+  private handlerRegistry: IHandlerRegistry;
+
+  constructor(
+    markerMatcher: ILogMarkerMatcher = new LogMarkerMatcher(ConfigurationService.getInstance()),
+    handlerRegistry: IHandlerRegistry = HandlerRegistry.createDefault(new DocumentEditor(), markerMatcher)
+  ) {
+    this.markerMatcher = markerMatcher;
+    this.handlerRegistry = handlerRegistry;
+  }
 
   /**
-   * Determines if a document should be processed based on .LOG prefix
+   * Determines if a document should be processed based on its .LOG trigger marker
    * @param document The VS Code text document to analyze
-   * @returns true if document starts with .LOG and is a supported file type
+   * @returns true if document starts with a trigger marker and is a supported file type
    */
-  shouldProcessDocument(document: vscode.TextDocument): boolean {
+  shouldProcessDocument(document: DocumentText): boolean {
     try {
       // Check if document is empty
       if (document.lineCount === 0) {
         return false;
       }
 
-      // Get first line and check for .LOG prefix
-      const firstLine = document.lineAt(0).text.trim();
-      const hasLogPrefix = firstLine === ContentAnalyzer.LOG_PREFIX;
-
       // Check if file type is supported
-      const fileType = this.getFileType(document);
-      const isSupportedType = fileType !== null;
+      const handler = this.handlerRegistry.getHandlerForDocument(document);
+      if (!handler) {
+        return false;
+      }
 
-      return hasLogPrefix && isSupportedType;
+      // Check the start of the document for a trigger marker where the handler expects it
+      return this.markerMatcher.hasMarker(document, handler.getMarkerSearchOptions());
     } catch (error) {
       // If we can't analyze the document, don't process it
       return false;
@@ -43,61 +58,24 @@ export class ContentAnalyzer implements IContentAnalyzer {
   }
 
   /**
-   * Checks if a document starts with .LOG prefix (legacy method for compatibility)
+   * Checks if a document starts with a .LOG trigger marker (legacy method for compatibility)
    * @param document The VS Code text document to check
-   * @returns true if document starts with .LOG
+   * @returns true if document starts with a trigger marker
    */
-  isLogFile(document: vscode.TextDocument): boolean {
-    try {
-      if (document.lineCount === 0) {
-        return false;
-      }
-
-      const firstLine = document.lineAt(0).text.trim();
-      return firstLine === ContentAnalyzer.LOG_PREFIX;
-    } catch (error) {
-      return false;
-    }
+  isLogFile(document: DocumentText): boolean {
+    const handler = this.handlerRegistry.getHandlerForDocument(document);
+    return this.markerMatcher.hasMarker(document, handler ? handler.getMarkerSearchOptions() : {});
   }
 
   /**
-   * Determines the file type based on document properties
+   * Determines the file type by asking the handler registry
    * @param document The VS Code text document to analyze
    * @returns SupportedFileType or null if not supported
    */
-  getFileType(document: vscode.TextDocument): SupportedFileType | null {
+  getFileType(document: DocumentText): SupportedFileType | null {
     try {
-      // First try to get extension from file name
-      const fileName = document.fileName;
-      const extensionMatch = fileName.match(/\.([^.]+)$/);
-
-      if (extensionMatch) {
-        const extension = extensionMatch[1].toLowerCase();
-
-        if (ContentAnalyzer.SUPPORTED_EXTENSIONS.has(extension)) {
-          switch (extension) {
-            case 'txt':
-              return SupportedFileType.TEXT;
-            case 'log':
-              return SupportedFileType.LOG;
-            case 'md':
-              return SupportedFileType.MARKDOWN;
-          }
-        }
-      }
-
-      // Fallback to language ID if extension detection fails
-      const languageId = document.languageId;
-      switch (languageId) {
-        case 'plaintext':
-          return SupportedFileType.TEXT;
-        case 'log':
-          return SupportedFileType.LOG;
-        case 'markdown':
-          return SupportedFileType.MARKDOWN;
-        default:
-          return null;
-      }
+      const handler = this.handlerRegistry.getHandlerForDocument(document);
+      return handler ? handler.getFileType() : null;
     } catch (error) {
       return null;
     }
@@ -127,7 +105,8 @@ export class ContentAnalyzer implements IContentAnalyzer {
         fileType,
         timestamp: '', // Will be populated by TimestampService
         shouldProcess,
-        processingState: shouldProcess ? ProcessingState.NOT_STARTED : ProcessingState.SKIPPED
+        processingState: shouldProcess ? ProcessingState.NOT_STARTED : ProcessingState.SKIPPED,
+        directives: shouldProcess ? this.getDirectives(document) : undefined
       };
 
       return {
@@ -144,27 +123,29 @@ export class ContentAnalyzer implements IContentAnalyzer {
   }
 
   /**
-   * Validates if a file extension is supported
-   * @param extension File extension without the dot
-   * @returns true if extension is supported
+   * Reads the directives written after a document's trigger marker, e.g. `.LOG tz=UTC template=standup`
+   * @param document The VS Code text document to analyze
+   * @returns The directives, empty if the marker has none
    */
-  private isSupportedExtension(extension: string): boolean {
-    return ContentAnalyzer.SUPPORTED_EXTENSIONS.has(extension.toLowerCase());
+  getDirectives(document: DocumentText): LogDirectives {
+    const handler = this.handlerRegistry.getHandlerForDocument(document);
+    const match = this.markerMatcher.findMarker(document, handler ? handler.getMarkerSearchOptions() : {});
+    return match?.directives ?? {};
   }
 
   /**
-   * Gets the LOG prefix constant for testing purposes
-   * @returns The LOG prefix string
+   * Gets the default LOG prefix for testing purposes
+   * @returns The default trigger marker
    */
   static getLogPrefix(): string {
-    return ContentAnalyzer.LOG_PREFIX;
+    return LogMarkerMatcher.DEFAULT_MARKER;
   }
 
   /**
-   * Gets the set of supported extensions for testing purposes
+   * Gets the extensions supported by the registered handlers
    * @returns Set of supported file extensions
    */
-  static getSupportedExtensions(): Set<string> {
-    return new Set(ContentAnalyzer.SUPPORTED_EXTENSIONS);
+  getSupportedExtensions(): Set<string> {
+    return this.handlerRegistry.getExtensions();
   }
 }
\ No newline at end of file
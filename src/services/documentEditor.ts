@@ -5,7 +5,7 @@ import { ErrorRecoveryService } from './errorRecovery';
 
 /**
  * DocumentEditor handles VS Code document editing operations for the dotLOG extension.
- * Provides methods for inserting text at document end and cursor positioning with
+ * Provides methods for inserting text at document end or at a line and cursor positioning with
  * comprehensive error handling for read-only files and edit failures.
  */
 export class DocumentEditor implements IDocumentEditor {
@@ -26,21 +26,44 @@ export class DocumentEditor implements IDocumentEditor {
    * @returns Promise<OperationResult<boolean>> indicating success/failure
    */
   async insertTextAtEnd(document: vscode.TextDocument, text: string): Promise<OperationResult<boolean>> {
+    return this.insertText(document, text, 'insertTextAtEnd');
+  }
+
+  /**
+   * Inserts text at the start of a line with error handling and retry logic, e.g. directly below the .LOG marker.
+   * Lines past the end of the document insert at the end, like insertTextAtEnd.
+   * @param document The VS Code text document to modify
+   * @param line The line to insert the text before
+   * @param text The text to insert
+   * @returns Promise<OperationResult<boolean>> indicating success/failure
+   */
+  async insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>> {
+    return this.insertText(document, text, 'insertTextAtLine', line);
+  }
+
+  /**
+   * Replaces a range of the document with error handling and retry logic.
+   * @param document The VS Code text document to modify
+   * @param range The range to replace
+   * @param text The replacement text
+   * @returns Promise<OperationResult<boolean>> indicating success/failure
+   */
+  async replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>> {
     try {
-      this.logger.logDebug('Attempting to insert text at end of document', {
+      this.logger.logDebug('Attempting to replace text in document', {
         fileName: document.fileName,
-        textLength: text.length,
-        documentLineCount: document.lineCount
+        startLine: range.start.line,
+        endLine: range.end.line,
+        textLength: text.length
       });
 
-      // Check if document can be modified
       if (!this.canModifyDocument(document)) {
         const permissionResult = await this.recoveryService.recoverFromPermissionError(
           document.fileName,
-          'insertTextAtEnd'
+          'replaceText'
         );
 
-        this.logger.logPermissionError('insertTextAtEnd', document.fileName);
+        this.logger.logPermissionError('replaceText', document.fileName);
 
         return {
           success: false,
@@ -49,37 +72,26 @@ export class DocumentEditor implements IDocumentEditor {
         };
       }
 
-      // Get the end position of the document
-      const lastLine = document.lineCount - 1;
-      const lastLineText = document.lineAt(lastLine).text;
-      const endPosition = new vscode.Position(lastLine, lastLineText.length);
-
-      // Create workspace edit
       const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, range, text);
 
-      // Ensure text starts with a newline if document doesn't end with one
-      const textToInsert = this.prepareTextForInsertion(document, text);
-
-      edit.insert(document.uri, endPosition, textToInsert);
-
-      // Apply the edit with retry logic and recovery
       const result = await this.applyEditWithRetryAndRecovery(document, edit);
 
       if (result.success) {
-        this.logger.logDebug('Successfully inserted text at end of document', {
+        this.logger.logDebug('Successfully replaced text in document', {
           fileName: document.fileName,
-          insertedText: textToInsert
+          replacementText: text
         });
       }
 
       return result;
 
     } catch (error) {
-      const errorMessage = `Failed to insert text: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      const errorMessage = `Failed to replace text: ${error instanceof Error ? error.message : 'Unknown error'}`;
 
       this.logger.logError(error instanceof Error ? error : new Error(errorMessage), {
         fileName: document.fileName,
-        operation: 'insertTextAtEnd',
+        operation: 'replaceText',
         textLength: text.length
       }, ErrorCode.DOCUMENT_MODIFICATION_FAILED);
 
@@ -97,9 +109,29 @@ export class DocumentEditor implements IDocumentEditor {
    * @returns Promise<OperationResult<void>> indicating success/failure
    */
   async positionCursorAtEnd(document: vscode.TextDocument): Promise<OperationResult<void>> {
+    let endPosition: vscode.Position;
     try {
-      this.logger.logDebug('Attempting to position cursor at end of document', {
-        fileName: document.fileName
+      const lastLine = document.lineCount - 1;
+      endPosition = new vscode.Position(lastLine, document.lineAt(lastLine).text.length);
+    } catch (error) {
+      const errorMessage = `Failed to position cursor: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return this.recoveryService.gracefulCursorPositioningFailure(document, error instanceof Error ? error : new Error(errorMessage));
+    }
+
+    return this.positionCursor(document, endPosition);
+  }
+
+  /**
+   * Positions the cursor in the document's active editor and reveals it, e.g. at a template's cursor marker.
+   * @param document The VS Code text document
+   * @param position The position to move the cursor to
+   * @returns Promise<OperationResult<void>> indicating success/failure
+   */
+  async positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>> {
+    try {
+      this.logger.logDebug('Attempting to position cursor', {
+        fileName: document.fileName,
+        position: { line: position.line, character: position.character }
       });
 
       const editor = vscode.window.activeTextEditor;
@@ -120,18 +152,13 @@ export class DocumentEditor implements IDocumentEditor {
         };
       }
 
-      // Get the end position of the document
-      const lastLine = document.lineCount - 1;
-      const lastLineText = document.lineAt(lastLine).text;
-      const endPosition = new vscode.Position(lastLine, lastLineText.length);
-
       // Set cursor position and reveal the position
-      editor.selection = new vscode.Selection(endPosition, endPosition);
-      editor.revealRange(new vscode.Range(endPosition, endPosition), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+      editor.selection = new vscode.Selection(position, position);
+      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
 
-      this.logger.logDebug('Successfully positioned cursor at end of document', {
+      this.logger.logDebug('Successfully positioned cursor', {
         fileName: document.fileName,
-        position: { line: endPosition.line, character: endPosition.character }
+        position: { line: position.line, character: position.character }
       });
 
       return {
@@ -210,19 +237,101 @@ export class DocumentEditor implements IDocumentEditor {
     }
   }
 
+  /**
+   * Inserts text at the start of a line or at the end of the document
+   * @param document The VS Code text document to modify
+   * @param text The text to insert
+   * @param operation The public operation, for logging
+   * @param line Optional line to insert the text before; the end of the document if omitted or past the end
+   * @returns Promise<OperationResult<boolean>> indicating success/failure
+   */
+  private async insertText(
+    document: vscode.TextDocument,
+    text: string,
+    operation: string,
+    line?: number
+  ): Promise<OperationResult<boolean>> {
+    try {
+      this.logger.logDebug('Attempting to insert text into document', {
+        fileName: document.fileName,
+        line,
+        textLength: text.length,
+        documentLineCount: document.lineCount
+      });
+
+      // Check if document can be modified
+      if (!this.canModifyDocument(document)) {
+        const permissionResult = await this.recoveryService.recoverFromPermissionError(
+          document.fileName,
+          operation
+        );
+
+        this.logger.logPermissionError(operation, document.fileName);
+
+        return {
+          success: false,
+          error: `Document is read-only or cannot be modified. ${permissionResult.success ? permissionResult.data : ''}`,
+          errorCode: ErrorCode.PERMISSION_DENIED
+        };
+      }
+
+      // Get the start of the line, or the end position of the document
+      const lastLine = document.lineCount - 1;
+      const position = line !== undefined && line <= lastLine
+        ? new vscode.Position(Math.max(0, line), 0)
+        : new vscode.Position(lastLine, document.lineAt(lastLine).text.length);
+
+      // Create workspace edit
+      const edit = new vscode.WorkspaceEdit();
+
+      // Ensure text starts on its own line and ends with a newline
+      const textToInsert = this.prepareTextForInsertion(document, position, text);
+
+      edit.insert(document.uri, position, textToInsert);
+
+      // Apply the edit with retry logic and recovery
+      const result = await this.applyEditWithRetryAndRecovery(document, edit);
+
+      if (result.success) {
+        this.logger.logDebug('Successfully inserted text into document', {
+          fileName: document.fileName,
+          line: position.line,
+          insertedText: textToInsert
+        });
+      }
+
+      return result;
+
+    } catch (error) {
+      const errorMessage = `Failed to insert text: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+      this.logger.logError(error instanceof Error ? error : new Error(errorMessage), {
+        fileName: document.fileName,
+        operation,
+        textLength: text.length
+      }, ErrorCode.DOCUMENT_MODIFICATION_FAILED);
+
+      return {
+        success: false,
+        error: errorMessage,
+        errorCode: ErrorCode.DOCUMENT_MODIFICATION_FAILED
+      };
+    }
+  }
+
   /**
    * Prepares text for insertion by ensuring proper line breaks.
    * @param document The target document
+   * @param position Where the text is inserted
    * @param text The text to insert
    * @returns The prepared text with appropriate line breaks
    */
-  private prepareTextForInsertion(document: vscode.TextDocument, text: string): string {
+  private prepareTextForInsertion(document: vscode.TextDocument, position: vscode.Position, text: string): string {
     if (document.lineCount === 0) {
       return text;
     }
 
-    const lastLine = document.lineAt(document.lineCount - 1);
-    const needsNewlineBefore = lastLine.text.length > 0;
+    const needsNewlineBefore = document.lineAt(position.line).text.substring(0, position.character).length > 0;
     const needsNewlineAfter = !text.endsWith('\n');
 
     let preparedText = text;
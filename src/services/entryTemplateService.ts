@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import {
+  IEntryTemplateService,
+  IConfigurationService,
+  IHandlerRegistry,
+  EntryTemplate,
+  SupportedFileType
+} from '../types';
+import { ErrorLogger } from './errorLogger';
+
+// The parts of the built-in Git extension's API used to read the current branch
+interface GitExtension {
+  getAPI(version: 1): {
+    getRepository(uri: vscode.Uri): { state: { HEAD?: { name?: string } } } | null;
+  };
+}
+
+/**
+ * EntryTemplateService picks the template written beneath a new timestamp and fills in its variables
+ * Templates come from the dotlog.entryTemplates setting, keyed by file type (such as `md`) or by a glob
+ * pattern matched against the document's path; a matching pattern takes precedence over the file type.
+ * Keys that are the ID of a registered handler's file type are never treated as patterns.
+ */
+export class EntryTemplateService implements IEntryTemplateService {
+  public static readonly CURSOR_VARIABLE = '${cursor}';
+
+  private static readonly VARIABLE_PATTERN = /\$\{(timestamp|user|workspaceFolder|gitBranch)\}/g;
+  private static readonly GIT_EXTENSION_ID = 'vscode.git';
+
+  private logger: ErrorLogger;
+
+  constructor(
+    private configurationService: IConfigurationService,
+    private handlerRegistry: IHandlerRegistry
+  ) {
+    this.logger = ErrorLogger.getInstance();
+  }
+
+  /**
+   * Finds and expands the template for a new entry in a document
+   * @param document The document the entry is added to
+   * @param fileType The document's file type
+   * @param timestamp The new entry's timestamp, substituted for `${timestamp}`
+   * @param name Optional template name from a `template=` directive on the trigger line
+   * @returns Promise resolving to the expanded template, or undefined if no template applies
+   */
+  public async resolveTemplate(
+    document: vscode.TextDocument,
+    fileType: SupportedFileType,
+    timestamp: string,
+    name?: string
+  ): Promise<EntryTemplate | undefined> {
+    const template = this.findTemplate(document, fileType, name);
+    if (!template) {
+      return undefined;
+    }
+
+    return this.expandTemplate(template, {
+      timestamp,
+      user: EntryTemplateService.getUserName(),
+      workspaceFolder: vscode.workspace.getWorkspaceFolder(document.uri)?.name || '',
+      gitBranch: template.includes('${gitBranch}') ? await this.getGitBranch(document.uri) : ''
+    });
+  }
+
+  /**
+   * Finds the configured template for a document
+   * A named template is used when it is configured; otherwise the pattern and file type keys are tried.
+   * @param document The document
+   * @param fileType The document's file type
+   * @param name Optional key of a named template, e.g. `standup`
+   * @returns The template text, or undefined if none is configured
+   */
+  public findTemplate(document: vscode.TextDocument, fileType: SupportedFileType, name?: string): string | undefined {
+    const templates = this.configurationService.getConfig(document.uri).entryTemplates;
+
+    if (name) {
+      if (templates[name]) {
+        return templates[name];
+      }
+
+      this.logger.logWarning('Entry template named on the trigger line is not configured', {
+        fileName: document.fileName,
+        template: name
+      });
+    }
+
+    const fileTypes = this.handlerRegistry.getFileTypes();
+    const patternKey = Object.keys(templates).find(key =>
+      !fileTypes.includes(key) && vscode.languages.match({ pattern: key }, document) > 0
+    );
+
+    return templates[patternKey ?? fileType] || undefined;
+  }
+
+  /**
+   * Replaces a template's variables and removes its cursor marker
+   * Unknown variables are left as they are; only the first `${cursor}` sets the cursor.
+   * @param template The template text
+   * @param variables Values for `${timestamp}`, `${user}`, `${workspaceFolder}` and `${gitBranch}`
+   * @returns The text, and the cursor's offset in it if the template has a `${cursor}`
+   */
+  public expandTemplate(template: string, variables: Record<string, string>): EntryTemplate {
+    const expand = (text: string) => text.replace(
+      EntryTemplateService.VARIABLE_PATTERN,
+      (variable, name: string) => variables[name] ?? variable
+    );
+
+    const [beforeCursor, ...afterCursor] = template.split(EntryTemplateService.CURSOR_VARIABLE);
+    const text = expand(beforeCursor);
+    if (afterCursor.length === 0) {
+      return { text };
+    }
+
+    return {
+      text: text + expand(afterCursor.join('')),
+      cursorOffset: text.length
+    };
+  }
+
+  /**
+   * Reads the current branch of the Git repository containing a file from VS Code's Git extension
+   * @param uri The file
+   * @returns Promise resolving to the branch name, or an empty string outside a repository or without Git
+   */
+  private async getGitBranch(uri: vscode.Uri): Promise<string> {
+    try {
+      const extension = vscode.extensions.getExtension<GitExtension>(EntryTemplateService.GIT_EXTENSION_ID);
+      if (!extension) {
+        return '';
+      }
+
+      const git = extension.isActive ? extension.exports : await extension.activate();
+      return git.getAPI(1).getRepository(uri)?.state.HEAD?.name || '';
+    } catch (error) {
+      this.logger.logWarning('Could not read the Git branch for an entry template', {
+        fileName: uri.fsPath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return '';
+    }
+  }
+
+  /**
+   * Reads the name of the signed-in operating system user
+   * @returns The user name, or an empty string if it can't be determined
+   */
+  private static getUserName(): string {
+    try {
+      return os.userInfo().username;
+    } catch (error) {
+      // userInfo throws when the user has no username or home directory
+      return process.env.USER || process.env.USERNAME || '';
+    }
+  }
+}
@@ -9,6 +9,7 @@ export class ErrorLogger {
   private static instance: ErrorLogger | null = null;
   private outputChannel: vscode.OutputChannel | null = null;
   private logLevel: LogLevel = LogLevel.INFO;
+  private enabled = true;
   private errorHistory: ExtensionError[] = [];
   private readonly maxHistorySize = 100;
 
@@ -35,6 +36,15 @@ export class ErrorLogger {
     this.logLevel = level;
   }
 
+  /**
+   * Enables or disables writing to the output channel
+   * Errors are still recorded in the error history while output is disabled
+   * @param enabled Whether log messages should be written to the output channel
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
   /**
    * Logs an error with full context information
    * @param error The error to log
@@ -197,7 +207,7 @@ export class ErrorLogger {
    * @param context Additional context information
    */
   private writeToOutput(level: string, message: string, context?: Record<string, any>): void {
-    if (!this.outputChannel) {
+    if (!this.outputChannel || !this.enabled) {
       return;
     }
 
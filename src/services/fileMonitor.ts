@@ -3,29 +3,49 @@ import {
   IFileMonitor,
   IContentAnalyzer,
   ITimestampService,
-  IFileHandler,
+  IHandlerRegistry,
+  IConfigurationService,
+  IEntryTemplateService,
   ProcessingResult,
   ProcessingState,
   OperationResult,
-  SupportedFileType,
+  TimestampOptions,
+  CoalesceOptions,
+  TriggerMode,
   ErrorCode
 } from '../types';
 import { ErrorLogger } from './errorLogger';
 import { ErrorRecoveryService } from './errorRecovery';
+import { ConfigurationService } from './configurationService';
 
 /**
- * FileMonitor service that listens for document open events and processes .LOG files
+ * FileMonitor service that processes .LOG files on the event selected by the dotlog.trigger setting.
+ * In the default `open` mode a document is stamped when it becomes visible in an editor, at most once
+ * while it stays open in a tab, so language mode changes, diff views and background reads of the same
+ * file don't add duplicate timestamps. The `focus` and `save` modes stamp when the document's editor
+ * regains focus after an idle gap, or when it is saved with changes since the last timestamp.
  */
 export class FileMonitor implements IFileMonitor {
-  private disposable: vscode.Disposable | null = null;
+  private disposables: vscode.Disposable[] = [];
   private isActive = false;
+  // URIs already handled while their tab stays open
+  private handledDocuments = new Set<string>();
+  // URI -> time (ms) of the last timestamp inserted in this session
+  private lastStampTimes = new Map<string, number>();
+  // URI -> document version right after the last timestamp was inserted
+  private lastStampVersions = new Map<string, number>();
+  // URI of the document whose editor has focus, and URI -> time (ms) each document last lost focus
+  private focusedDocumentKey: string | undefined;
+  private lastFocusTimes = new Map<string, number>();
   private logger: ErrorLogger;
   private recoveryService: ErrorRecoveryService;
 
   constructor(
     private contentAnalyzer: IContentAnalyzer,
     private timestampService: ITimestampService,
-    private fileHandlers: Map<SupportedFileType, IFileHandler>
+    private handlerRegistry: IHandlerRegistry,
+    private configurationService: IConfigurationService = ConfigurationService.getInstance(),
+    private entryTemplateService?: IEntryTemplateService
   ) {
     this.logger = ErrorLogger.getInstance();
     this.recoveryService = ErrorRecoveryService.getInstance();
@@ -48,13 +68,21 @@ export class FileMonitor implements IFileMonitor {
         };
       }
 
-      // Register event listener for document open events
-      this.disposable = vscode.workspace.onDidOpenTextDocument(
-        this.handleDocumentOpened.bind(this)
+      // Subscribe to the events of every trigger mode; the handlers check the mode configured for each document
+      this.disposables.push(
+        vscode.window.onDidChangeVisibleTextEditors(this.handleVisibleEditorsChanged.bind(this)),
+        vscode.window.tabGroups.onDidChangeTabs(this.handleTabsChanged.bind(this)),
+        vscode.window.onDidChangeActiveTextEditor(this.handleActiveEditorChanged.bind(this)),
+        vscode.window.onDidChangeWindowState(this.handleWindowStateChanged.bind(this)),
+        vscode.workspace.onWillSaveTextDocument(this.handleWillSaveDocument.bind(this))
       );
 
       this.isActive = true;
 
+      // Editors that were already visible or focused before monitoring started won't raise a change event
+      this.handleVisibleEditorsChanged(vscode.window.visibleTextEditors);
+      this.handleActiveEditorChanged(vscode.window.activeTextEditor);
+
       this.logger.logInfo('File monitoring started successfully');
 
       return {
@@ -93,10 +121,9 @@ export class FileMonitor implements IFileMonitor {
         };
       }
 
-      if (this.disposable) {
-        this.disposable.dispose();
-        this.disposable = null;
-      }
+      this.disposables.forEach(disposable => disposable.dispose());
+      this.disposables = [];
+      this.focusedDocumentKey = undefined;
 
       this.isActive = false;
 
@@ -171,40 +198,61 @@ export class FileMonitor implements IFileMonitor {
         };
       }
 
-      // Get timestamp for processing
-      const timestampResult = this.timestampService.getCurrentTimestamp();
-      if (!timestampResult.success || !timestampResult.data) {
-        this.logger.logError(
-          new Error(timestampResult.error || 'Failed to generate timestamp'),
-          {
-            fileName: document.fileName,
-            errorCode: timestampResult.errorCode
-          },
-          ErrorCode.TIMESTAMP_GENERATION_FAILED
-        );
+      // Get appropriate file handler
+      const handler = this.handlerRegistry.getHandler(context.fileType);
+      if (!handler) {
+        const errorMessage = `No handler found for file type: ${context.fileType}`;
+
+        this.logger.logError(new Error(errorMessage), {
+          fileName: document.fileName,
+          fileType: context.fileType,
+          availableHandlers: this.handlerRegistry.getFileTypes()
+        });
 
         return {
           success: false,
-          error: timestampResult.error || 'Failed to generate timestamp',
+          error: errorMessage,
           documentModified: false,
           processingState: ProcessingState.FAILED
         };
       }
 
-      // Get appropriate file handler
-      const handler = this.fileHandlers.get(context.fileType);
-      if (!handler) {
-        const errorMessage = `No handler found for file type: ${context.fileType}`;
-
-        this.logger.logError(new Error(errorMessage), {
+      // Respect settings, including overrides for the document's workspace folder
+      const config = this.configurationService.getConfig(document.uri);
+      if (!config.enabled || !this.handlerRegistry.getEnabledFileTypes(config.supportedFileTypes).includes(context.fileType)) {
+        this.logger.logDebug('Document processing disabled by configuration, skipping', {
           fileName: document.fileName,
           fileType: context.fileType,
-          availableHandlers: Array.from(this.fileHandlers.keys())
+          enabled: config.enabled,
+          supportedFileTypes: config.supportedFileTypes
         });
 
+        return {
+          success: true,
+          documentModified: false,
+          processingState: ProcessingState.SKIPPED
+        };
+      }
+
+      // Get timestamp for processing; handlers and the trigger line's directives may override the configured format
+      const timestampOptions: TimestampOptions = {
+        ...this.configurationService.getTimestampOptions(document.uri),
+        ...handler.getTimestampOptions(document)
+      };
+      const timestampResult = this.timestampService.getCurrentTimestamp(timestampOptions);
+      if (!timestampResult.success || !timestampResult.data) {
+        this.logger.logError(
+          new Error(timestampResult.error || 'Failed to generate timestamp'),
+          {
+            fileName: document.fileName,
+            errorCode: timestampResult.errorCode
+          },
+          ErrorCode.TIMESTAMP_GENERATION_FAILED
+        );
+
         return {
           success: false,
-          error: errorMessage,
+          error: timestampResult.error || 'Failed to generate timestamp',
           documentModified: false,
           processingState: ProcessingState.FAILED
         };
@@ -217,7 +265,32 @@ export class FileMonitor implements IFileMonitor {
         timestamp: timestampResult.data
       });
 
-      const processingResult = await handler.processDocument(document, timestampResult.data);
+      // Let the handler skip or replace a recent empty entry, reading it in the same format
+      const coalesce: CoalesceOptions | undefined = config.coalesceWindowMinutes > 0
+        ? {
+          windowMinutes: config.coalesceWindowMinutes,
+          action: config.coalesceAction,
+          parseTimestamp: text => this.timestampService.parseTimestamp(text, timestampOptions)
+        }
+        : undefined;
+
+      const template = await this.entryTemplateService?.resolveTemplate(
+        document,
+        context.fileType,
+        timestampResult.data,
+        context.directives?.template
+      );
+
+      // An insert= directive on the trigger line takes precedence over dotlog.insertPosition
+      const insertPosition = context.directives?.insertPosition ?? config.insertPosition;
+
+      const processingResult = await handler.processDocument(
+        document,
+        timestampResult.data,
+        coalesce,
+        template,
+        insertPosition
+      );
 
       if (processingResult.success) {
         this.logger.logInfo('Document processed successfully', {
@@ -255,6 +328,20 @@ export class FileMonitor implements IFileMonitor {
     }
   }
 
+  /**
+   * Adds an entry on request, e.g. from the New Entry command, regardless of the trigger mode
+   * The stamp is recorded like a triggered one, so save mode doesn't stamp the same changes again.
+   * @param document The document to stamp
+   * @returns Promise resolving to processing result
+   */
+  async addEntry(document: vscode.TextDocument): Promise<ProcessingResult> {
+    const result = await this.onDocumentOpened(document);
+    if (result.success && result.documentModified) {
+      this.recordStamp(document);
+    }
+    return result;
+  }
+
   /**
    * Checks if the monitor is currently active
    * @returns true if monitoring is active
@@ -264,10 +351,158 @@ export class FileMonitor implements IFileMonitor {
   }
 
   /**
-   * Private method to handle document opened events
-   * @param document The opened document
+   * Private method to handle changes to the set of visible editors
+   * Documents are only considered when shown in a regular text tab, not in diff views
+   * @param editors The currently visible text editors
+   */
+  private handleVisibleEditorsChanged(editors: readonly vscode.TextEditor[]): void {
+    for (const editor of editors) {
+      const document = editor.document;
+      const key = document.uri.toString();
+
+      if (this.handledDocuments.has(key) || this.getTrigger(document) !== TriggerMode.OPEN ||
+        this.isOnlyInDiffTabs(document.uri)) {
+        continue;
+      }
+
+      this.handledDocuments.add(key);
+      void this.handleDocumentTriggered(document);
+    }
+  }
+
+  /**
+   * Private method to handle a change of the active editor
+   * @param editor The newly active text editor, if any
    */
-  private async handleDocumentOpened(document: vscode.TextDocument): Promise<void> {
+  private handleActiveEditorChanged(editor: vscode.TextEditor | undefined): void {
+    this.setFocusedDocument(editor?.document);
+  }
+
+  /**
+   * Private method to handle the VS Code window gaining or losing focus
+   * Returning to the window counts as focusing the active editor again
+   * @param state The new window state
+   */
+  private handleWindowStateChanged(state: vscode.WindowState): void {
+    this.setFocusedDocument(state.focused ? vscode.window.activeTextEditor?.document : undefined);
+  }
+
+  /**
+   * Tracks which document has focus and stamps it in focus mode when it was unfocused for the idle gap
+   * A document that has not had focus before in this session is stamped on its first focus
+   * @param document The document whose editor now has focus, or undefined if none has
+   */
+  private setFocusedDocument(document: vscode.TextDocument | undefined): void {
+    const key = document?.uri.toString();
+    if (key === this.focusedDocumentKey) {
+      return;
+    }
+
+    const now = Date.now();
+    if (this.focusedDocumentKey) {
+      this.lastFocusTimes.set(this.focusedDocumentKey, now);
+    }
+    this.focusedDocumentKey = key;
+
+    if (!document || !key || this.getTrigger(document) !== TriggerMode.FOCUS) {
+      return;
+    }
+
+    const { focusIdleMinutes } = this.configurationService.getConfig(document.uri);
+    const lastFocusTime = this.lastFocusTimes.get(key);
+    if (lastFocusTime !== undefined && now - lastFocusTime < focusIdleMinutes * 60000) {
+      this.logger.logDebug('Document was focused recently, skipping', {
+        fileName: document.fileName,
+        lastFocusTime: new Date(lastFocusTime).toISOString(),
+        focusIdleMinutes
+      });
+      return;
+    }
+
+    void this.handleDocumentTriggered(document);
+  }
+
+  /**
+   * Private method to handle a document about to be saved
+   * In save mode the timestamp is added before the save completes, so it is written with the file.
+   * Only manual saves with changes since the last timestamp are stamped, so auto save doesn't add
+   * a timestamp after every pause in typing.
+   * @param event The will-save event
+   */
+  private handleWillSaveDocument(event: vscode.TextDocumentWillSaveEvent): void {
+    const document = event.document;
+    if (event.reason !== vscode.TextDocumentSaveReason.Manual || this.getTrigger(document) !== TriggerMode.SAVE) {
+      return;
+    }
+
+    if (!document.isDirty || this.lastStampVersions.get(document.uri.toString()) === document.version) {
+      this.logger.logDebug('Document has no changes since the last timestamp, skipping', {
+        fileName: document.fileName
+      });
+      return;
+    }
+
+    event.waitUntil(this.handleDocumentTriggered(document));
+  }
+
+  /**
+   * Gets the trigger mode configured for a document
+   * @param document The document to check
+   * @returns The trigger mode, including overrides for the document's workspace folder
+   */
+  private getTrigger(document: vscode.TextDocument): TriggerMode {
+    return this.configurationService.getConfig(document.uri).trigger;
+  }
+
+  /**
+   * Private method to handle tab changes
+   * Releases documents whose last text tab was closed so that reopening them stamps again
+   * @param event The tab change event
+   */
+  private handleTabsChanged(event: vscode.TabChangeEvent): void {
+    for (const tab of event.closed) {
+      if (!(tab.input instanceof vscode.TabInputText)) {
+        continue;
+      }
+
+      const uri = tab.input.uri;
+      if (!this.isOpenInTextTab(uri)) {
+        this.handledDocuments.delete(uri.toString());
+      }
+    }
+  }
+
+  /**
+   * Checks whether a document is shown in at least one regular text tab
+   * @param uri The document URI
+   * @returns true if a text tab (not a diff or custom editor) shows the document
+   */
+  private isOpenInTextTab(uri: vscode.Uri): boolean {
+    const key = uri.toString();
+    return vscode.window.tabGroups.all.some(group =>
+      group.tabs.some(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === key)
+    );
+  }
+
+  /**
+   * Checks whether a document is visible only as one side of a diff view
+   * @param uri The document URI
+   * @returns true if a diff tab shows the document and no regular text tab does
+   */
+  private isOnlyInDiffTabs(uri: vscode.Uri): boolean {
+    const key = uri.toString();
+    const inDiffTab = vscode.window.tabGroups.all.some(group =>
+      group.tabs.some(tab => tab.input instanceof vscode.TabInputTextDiff &&
+        (tab.input.modified.toString() === key || tab.input.original.toString() === key))
+    );
+    return inDiffTab && !this.isOpenInTextTab(uri);
+  }
+
+  /**
+   * Private method to process a document when its configured trigger event occurs
+   * @param document The document to stamp
+   */
+  private async handleDocumentTriggered(document: vscode.TextDocument): Promise<void> {
     try {
       // Filter out unsupported file types early for performance
       const fileType = this.contentAnalyzer.getFileType(document);
@@ -279,8 +514,32 @@ export class FileMonitor implements IFileMonitor {
         return; // Skip unsupported file types silently
       }
 
+      // Respect the minimum interval between stamps for the same file
+      const key = document.uri.toString();
+      const { minimumStampIntervalSeconds } = this.configurationService.getConfig(document.uri);
+      const lastStampTime = this.lastStampTimes.get(key);
+      if (lastStampTime !== undefined && Date.now() - lastStampTime < minimumStampIntervalSeconds * 1000) {
+        this.logger.logDebug('Document was stamped recently, skipping', {
+          fileName: document.fileName,
+          lastStampTime: new Date(lastStampTime).toISOString(),
+          minimumStampIntervalSeconds
+        });
+        return;
+      }
+
       // Process the document
+      const startTime = Date.now();
       const result = await this.onDocumentOpened(document);
+      const elapsedMs = Date.now() - startTime;
+
+      const { performanceThresholdMs } = this.configurationService.getConfig(document.uri);
+      if (elapsedMs > performanceThresholdMs) {
+        this.logger.logWarning('Document processing exceeded performance threshold', {
+          fileName: document.fileName,
+          elapsedMs,
+          performanceThresholdMs
+        });
+      }
 
       // Clear retry history for successful operations
       if (result.success) {
@@ -297,6 +556,7 @@ export class FileMonitor implements IFileMonitor {
           }
         );
       } else if (result.documentModified) {
+        this.recordStamp(document);
         this.logger.logInfo('Timestamp added to document', {
           fileName: document.fileName,
           timestamp: result.timestamp
@@ -306,16 +566,30 @@ export class FileMonitor implements IFileMonitor {
     } catch (error) {
       this.logger.logError(error instanceof Error ? error : new Error('Error in document open handler'), {
         fileName: document.fileName,
-        operation: 'handleDocumentOpened'
+        operation: 'handleDocumentTriggered'
       });
     }
   }
 
+  /**
+   * Records the time and resulting version of a timestamp inserted into a document
+   * @param document The stamped document
+   */
+  private recordStamp(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    this.lastStampTimes.set(key, Date.now());
+    this.lastStampVersions.set(key, document.version);
+  }
+
   /**
    * Disposes of resources when the monitor is destroyed
    */
   dispose(): void {
     this.logger.logDebug('Disposing file monitor');
     this.stopMonitoring();
+    this.handledDocuments.clear();
+    this.lastStampTimes.clear();
+    this.lastStampVersions.clear();
+    this.lastFocusTimes.clear();
   }
 }
\ No newline at end of file
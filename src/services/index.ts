@@ -4,4 +4,10 @@ export { ContentAnalyzer } from './contentAnalyzer';
 export { DocumentEditor } from './documentEditor';
 export { FileMonitor } from './fileMonitor';
 export { ErrorLogger } from './errorLogger';
-export { ErrorRecoveryService } from './errorRecovery';
\ No newline at end of file
+export { ErrorRecoveryService } from './errorRecovery';
+export { ConfigurationService } from './configurationService';
+export { LogMarkerMatcher } from './logMarkerMatcher';
+export { LogEntryParser } from './logEntryParser';
+export { LogFileIndex } from './logFileIndex';
+export { TextSnapshot } from './textSnapshot';
+export { EntryTemplateService } from './entryTemplateService';
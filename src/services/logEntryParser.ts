@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import {
+  ILogEntryParser,
+  IHandlerRegistry,
+  IFileHandler,
+  ITimestampService,
+  IConfigurationService,
+  DocumentText,
+  LogEntry,
+  TimestampPreset
+} from '../types';
+
+interface EntryHeader {
+  timestamp: string;
+  date: Date;
+  line: number;
+}
+
+/**
+ * LogEntryParser finds the timestamped entries in a document
+ * An entry starts where the document's file handler recognizes a timestamp it would have written,
+ * and runs until the next entry. Timestamps are read in the format currently configured for the
+ * document, or in one of the built-in presets for entries written before a format change.
+ */
+export class LogEntryParser implements ILogEntryParser {
+  constructor(
+    private handlerRegistry: IHandlerRegistry,
+    private timestampService: ITimestampService,
+    private configurationService: IConfigurationService
+  ) {}
+
+  /**
+   * Parses all entries in a document
+   * @param document The document, or a snapshot of a file that is not open
+   * @returns Entries in document order, or an empty array if no handler supports the document
+   */
+  parseEntries(document: DocumentText): LogEntry[] {
+    const handler = this.handlerRegistry.getHandlerForDocument(document);
+    if (!handler) {
+      return [];
+    }
+
+    const parsers = this.createParsers(document, handler);
+    const headers: EntryHeader[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+      const header = this.readHeader(document, handler, parsers, line);
+      if (header) {
+        headers.push(header);
+        line += handler.getEntryLineCount() - 1;
+      }
+    }
+
+    return headers.map((header, index) => this.createEntry(
+      document,
+      handler,
+      header,
+      index + 1 < headers.length ? headers[index + 1].line : document.lineCount
+    ));
+  }
+
+  /**
+   * Parses the entry whose timestamp starts at a line
+   * @param document The document, or a snapshot of a file that is not open
+   * @param line The line of the entry's timestamp, e.g. a `## ` heading in Markdown
+   * @returns The entry with its parsed date and boundaries, or null if no entry starts at the line
+   */
+  parseEntryAt(document: DocumentText, line: number): LogEntry | null {
+    const handler = this.handlerRegistry.getHandlerForDocument(document);
+    if (!handler) {
+      return null;
+    }
+
+    const parsers = this.createParsers(document, handler);
+    const header = this.readHeader(document, handler, parsers, line);
+    if (!header) {
+      return null;
+    }
+
+    let nextLine = line + handler.getEntryLineCount();
+    while (nextLine < document.lineCount && !this.readHeader(document, handler, parsers, nextLine)) {
+      nextLine++;
+    }
+
+    return this.createEntry(document, handler, header, nextLine);
+  }
+
+  /**
+   * Creates timestamp parsers for the configured format followed by the built-in presets
+   * Handlers with a fixed format, such as Org, only get a parser for that format.
+   * @param document The document, for its workspace folder settings and trigger line directives
+   * @param handler The document's file handler
+   * @returns Parsers in the order they should be tried
+   */
+  private createParsers(document: DocumentText, handler: IFileHandler): ((text: string) => Date | null)[] {
+    const handlerOptions = handler.getTimestampOptions();
+    const options = {
+      ...this.configurationService.getTimestampOptions(document.uri),
+      ...handler.getTimestampOptions(document)
+    };
+
+    const formats = handlerOptions.format
+      ? [options.format]
+      : [options.format, ...Object.values(TimestampPreset).filter(preset => preset !== options.format)];
+
+    return formats.map(format => this.timestampService.createParser({ ...options, format }));
+  }
+
+  /**
+   * Reads an entry's timestamp at a line and parses it with the first parser that accepts it
+   * @param document The VS Code text document
+   * @param handler The document's file handler
+   * @param parsers The timestamp parsers to try
+   * @param line The line the entry would start at
+   * @returns The entry's timestamp, date and line, or null if no entry starts at the line
+   */
+  private readHeader(
+    document: DocumentText,
+    handler: IFileHandler,
+    parsers: ((text: string) => Date | null)[],
+    line: number
+  ): EntryHeader | null {
+    const timestamp = handler.readEntryTimestamp(document, line);
+    if (!timestamp) {
+      return null;
+    }
+
+    for (const parse of parsers) {
+      const date = parse(timestamp);
+      if (date) {
+        return { timestamp, date, line };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds an entry from its header and the line where the next entry starts
+   * @param document The VS Code text document
+   * @param handler The document's file handler
+   * @param header The entry's timestamp, date and line
+   * @param nextLine The next entry's first line, or the document's line count for the last entry
+   * @returns The entry
+   */
+  private createEntry(document: DocumentText, handler: IFileHandler, header: EntryHeader, nextLine: number): LogEntry {
+    const headerEnd = document.lineAt(header.line + handler.getEntryLineCount() - 1);
+
+    // The entry ends at its last non-blank line, so blank lines before the next entry are left out
+    let lastLine = nextLine - 1;
+    while (lastLine > headerEnd.lineNumber && document.lineAt(lastLine).isEmptyOrWhitespace) {
+      lastLine--;
+    }
+
+    const lines: string[] = [];
+    for (let line = headerEnd.lineNumber + 1; line <= lastLine; line++) {
+      lines.push(document.lineAt(line).text);
+    }
+
+    return {
+      timestamp: header.timestamp,
+      date: header.date,
+      title: lines.map(line => line.trim()).find(line => line.length > 0) || '',
+      text: lines.join('\n').trim(),
+      headerRange: new vscode.Range(header.line, 0, headerEnd.lineNumber, headerEnd.text.length),
+      range: new vscode.Range(header.line, 0, lastLine, document.lineAt(lastLine).text.length)
+    };
+  }
+}
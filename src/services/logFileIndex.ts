@@ -0,0 +1,278 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {
+  ILogFileIndex,
+  ILogEntryParser,
+  IContentAnalyzer,
+  IHandlerRegistry,
+  IConfigurationService,
+  DocumentText,
+  LogFile,
+  SupportedFileType
+} from '../types';
+import { ErrorLogger } from './errorLogger';
+import { TextSnapshot } from './textSnapshot';
+
+/**
+ * LogFileIndex finds the .LOG files in the workspace and keeps their entries up to date
+ * Files are checked for a trigger marker by reading only their beginning; the entries of
+ * .LOG files are then parsed from the open document or from disk. Like the file monitor, the index
+ * skips everything while dotLOG is disabled and file types missing from dotlog.supportedFileTypes.
+ * The workspace is scanned the first time the files are requested, and a file system watcher updates
+ * the index afterwards.
+ */
+export class LogFileIndex implements ILogFileIndex, vscode.Disposable {
+  // Enough for YAML front matter or Org header lines before the marker
+  private static readonly HEAD_BYTES = 4096;
+  private static readonly EXCLUDE_PATTERN = '**/node_modules/**';
+  private static readonly MAX_FILES = 10000;
+
+  private files = new Map<string, LogFile>();
+  private loading: Promise<void> | undefined;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private logger: ErrorLogger;
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private contentAnalyzer: IContentAnalyzer,
+    private entryParser: ILogEntryParser,
+    private handlerRegistry: IHandlerRegistry,
+    private configurationService: IConfigurationService
+  ) {
+    this.logger = ErrorLogger.getInstance();
+  }
+
+  /**
+   * Returns the .LOG files in the workspace, scanning it on first use
+   * @returns Promise resolving to the indexed files
+   */
+  public async getFiles(): Promise<LogFile[]> {
+    await (this.loading || this.startLoading());
+    return [...this.files.values()];
+  }
+
+  /**
+   * Scans the workspace again
+   * @returns Promise resolving once the index is rebuilt
+   */
+  public async refresh(): Promise<void> {
+    await this.startLoading();
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Updates the index when supported files are created, changed or deleted, and rescans it when
+   * workspace folders or the settings that select .LOG files change
+   * @returns Disposable that stops watching
+   */
+  public startWatching(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(this.getFilePattern());
+
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidCreate(uri => this.updateFile(uri)),
+      watcher.onDidChange(uri => this.updateFile(uri)),
+      watcher.onDidDelete(uri => this.removeFile(uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refreshSafely()),
+      this.configurationService.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('dotlog.enabled') || event.affectsConfiguration('dotlog.supportedFileTypes')) {
+          this.refreshSafely();
+        }
+      })
+    );
+  }
+
+  /**
+   * Reads a file and parses its entries if it starts with a trigger marker
+   * Unsaved changes are included when the file is open in an editor.
+   * @param uri The file to read
+   * @returns Promise resolving to the file, or null if it is not a supported .LOG file
+   */
+  public async readLogFile(uri: vscode.Uri): Promise<LogFile | null> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    const head = openDocument ? null : await this.readHead(uri);
+    const headDocument: DocumentText = openDocument || new TextSnapshot(uri, head?.text || '');
+
+    const fileType = this.contentAnalyzer.getFileType(headDocument);
+    if (!fileType || !this.isEnabledFor(uri, fileType) || !this.contentAnalyzer.shouldProcessDocument(headDocument)) {
+      return null;
+    }
+
+    const document = (openDocument || head?.complete)
+      ? headDocument
+      : new TextSnapshot(uri, Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+
+    return {
+      uri,
+      fileType,
+      entries: this.entryParser.parseEntries(document)
+    };
+  }
+
+  /**
+   * Releases the change event
+   */
+  public dispose(): void {
+    this.changeEmitter.dispose();
+    this.files.clear();
+  }
+
+  /**
+   * Starts a workspace scan
+   * A failed scan is forgotten, so the next request scans again instead of repeating the failure.
+   * @returns Promise resolving once the index is rebuilt
+   */
+  private startLoading(): Promise<void> {
+    const loading: Promise<void> = this.load().catch(error => {
+      if (this.loading === loading) {
+        this.loading = undefined;
+      }
+      throw error;
+    });
+    this.loading = loading;
+    return loading;
+  }
+
+  /**
+   * Scans the workspace again from an event handler, logging failures instead of rejecting
+   */
+  private refreshSafely(): void {
+    this.refresh().catch(error => {
+      this.logger.logError(error instanceof Error ? error : new Error('Unknown error'), {
+        operation: 'refreshLogFileIndex'
+      });
+    });
+  }
+
+  /**
+   * Checks the settings that select .LOG files, as the file monitor does
+   * @param uri The file, for its workspace folder's settings
+   * @param fileType The file's type
+   * @returns true if dotLOG is enabled for the file's type
+   */
+  private isEnabledFor(uri: vscode.Uri, fileType: SupportedFileType): boolean {
+    const config = this.configurationService.getConfig(uri);
+    return config.enabled && this.handlerRegistry.getEnabledFileTypes(config.supportedFileTypes).includes(fileType);
+  }
+
+  /**
+   * Finds and reads all supported files in the workspace
+   * @returns Promise resolving once the index holds the workspace's .LOG files
+   */
+  private async load(): Promise<void> {
+    const startTime = Date.now();
+    const uris = await vscode.workspace.findFiles(
+      this.getFilePattern(),
+      LogFileIndex.EXCLUDE_PATTERN,
+      LogFileIndex.MAX_FILES
+    );
+
+    const files = new Map<string, LogFile>();
+    for (const uri of uris) {
+      const file = await this.readLogFileSafely(uri);
+      if (file) {
+        files.set(uri.toString(), file);
+      }
+    }
+    this.files = files;
+
+    this.logger.logDebug('Indexed .LOG files in the workspace', {
+      candidateCount: uris.length,
+      logFileCount: files.size,
+      durationMs: Date.now() - startTime
+    });
+  }
+
+  /**
+   * Re-reads a created or changed file once the index is loaded
+   * @param uri The file that changed
+   */
+  private async updateFile(uri: vscode.Uri): Promise<void> {
+    // Files that change before the first scan are picked up by it
+    if (!this.loading) {
+      return;
+    }
+    try {
+      await this.loading;
+    } catch (error) {
+      // The failed scan is reported to whoever requested it, and the next scan reads this file
+      return;
+    }
+
+    const key = uri.toString();
+    const file = await this.readLogFileSafely(uri);
+    const wasIndexed = this.files.delete(key);
+    if (file) {
+      this.files.set(key, file);
+    }
+
+    if (file || wasIndexed) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * Removes a deleted file from the index
+   * @param uri The deleted file
+   */
+  private removeFile(uri: vscode.Uri): void {
+    if (this.files.delete(uri.toString())) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * Reads a file, logging files that can't be read instead of failing the scan
+   * @param uri The file to read
+   * @returns Promise resolving to the file, or null if it is not a .LOG file or can't be read
+   */
+  private async readLogFileSafely(uri: vscode.Uri): Promise<LogFile | null> {
+    try {
+      return await this.readLogFile(uri);
+    } catch (error) {
+      this.logger.logWarning('Could not read file for the .LOG index', {
+        fileName: uri.fsPath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Reads the beginning of a file, which is enough to find its trigger marker
+   * Files on disk are read partially; other file systems are read through VS Code in full.
+   * @param uri The file to read
+   * @returns Promise resolving to the text, without a partial last line, and whether it is the whole file
+   */
+  private async readHead(uri: vscode.Uri): Promise<{ text: string; complete: boolean }> {
+    if (uri.scheme !== 'file') {
+      return {
+        text: Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'),
+        complete: true
+      };
+    }
+
+    const handle = await fs.promises.open(uri.fsPath, 'r');
+    try {
+      const buffer = Buffer.alloc(LogFileIndex.HEAD_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, LogFileIndex.HEAD_BYTES, 0);
+      const text = buffer.toString('utf8', 0, bytesRead);
+
+      if (bytesRead < LogFileIndex.HEAD_BYTES) {
+        return { text, complete: true };
+      }
+      return { text: text.substring(0, Math.max(0, text.lastIndexOf('\n'))), complete: false };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Builds a glob matching the extensions of the registered handlers
+   * @returns Glob pattern such as `**\/*.{txt,log,md}`
+   */
+  private getFilePattern(): string {
+    return `**/*.{${[...this.handlerRegistry.getExtensions()].join(',')}}`;
+  }
+}
@@ -0,0 +1,295 @@
+import {
+  ILogMarkerMatcher,
+  IConfigurationService,
+  DocumentText,
+  LogMarkerOptions,
+  LogMarkerMatch,
+  LogDirectives,
+  MarkerSearchOptions,
+  TimestampPreset,
+  isInsertPosition
+} from '../types';
+
+// A trigger marker found on a line, with the directives written after it
+interface MarkerLineMatch {
+  marker: string;
+  directives?: LogDirectives;
+}
+
+/**
+ * LogMarkerMatcher service that decides whether a document starts with a .LOG trigger marker
+ * Shared by the content analyzer and the file handlers so both apply the same marker rules
+ */
+export class LogMarkerMatcher implements ILogMarkerMatcher {
+  public static readonly DEFAULT_MARKER = '.LOG';
+  public static readonly FRONT_MATTER_KEY = 'dotlog';
+
+  private static readonly FRONT_MATTER_OPEN = '---';
+  private static readonly FRONT_MATTER_CLOSE = new Set(['---', '...']);
+  private static readonly FRONT_MATTER_MAX_LINES = 200;
+  private static readonly FRONT_MATTER_ENTRY = /^dotlog\s*:\s*(\S+?)\s*(?:#.*)?$/;
+  private static readonly TRUE_VALUES = new Set(['true', 'yes', 'on']);
+  private static readonly FALSE_VALUES = new Set(['false', 'no', 'off']);
+  private static readonly DIRECTIVE = /\s*([A-Za-z]+)=("[^"]*"|[^\s"]+)/y;
+  private static readonly FORMAT_ALIASES: Record<string, string> = { iso: TimestampPreset.ISO8601 };
+  private static readonly HEADING_LEVEL = /^[1-6]$/;
+
+  private configurationService: IConfigurationService;
+
+  constructor(configurationService: IConfigurationService) {
+    this.configurationService = configurationService;
+  }
+
+  /**
+   * Finds the trigger marker at the start of a document
+   * With front matter enabled, a leading YAML block is skipped: a `dotlog: true` entry in the block
+   * or a marker on the first non-blank line after it triggers, and `dotlog: false` opts out.
+   * With a header pattern, leading lines matching it (and blank lines between them) are skipped
+   * @param document The VS Code text document to check
+   * @param search Where to look for the marker
+   * @returns The matched marker and its line, or null if the document has no marker
+   */
+  public findMarker(document: DocumentText, search: MarkerSearchOptions = {}): LogMarkerMatch | null {
+    try {
+      if (document.lineCount === 0) {
+        return null;
+      }
+
+      const options = this.configurationService.getMarkerOptions(document.uri);
+
+      if (search.frontMatter) {
+        const frontMatterEnd = this.findFrontMatterEnd(document);
+        if (frontMatterEnd !== null) {
+          return this.matchAfterFrontMatter(document, frontMatterEnd, options, search.commentPrefixes);
+        }
+      }
+
+      const line = search.headerPattern ? this.skipHeaderLines(document, search.headerPattern) : 0;
+      if (line >= document.lineCount) {
+        return null;
+      }
+
+      const match = LogMarkerMatcher.matchMarkerLine(document.lineAt(line).text, options, search.commentPrefixes);
+      return match ? { line, ...match } : null;
+    } catch (error) {
+      // If we can't read the document, treat it as having no marker
+      return null;
+    }
+  }
+
+  /**
+   * Checks if a document starts with a trigger marker
+   * @param document The VS Code text document to check
+   * @param search Where to look for the marker
+   * @returns true if the document has a trigger marker
+   */
+  public hasMarker(document: DocumentText, search: MarkerSearchOptions = {}): boolean {
+    return this.findMarker(document, search) !== null;
+  }
+
+  /**
+   * Finds the first line after the trigger marker, where the newest entry goes in top insertion mode
+   * A `dotlog: true` entry in YAML front matter counts as the marker, so the line after the front matter is returned.
+   * @param document The VS Code text document to check
+   * @param search Where to look for the marker
+   * @returns The line after the marker or the front matter containing it, or null if the document has no marker
+   */
+  public findEntriesStart(document: DocumentText, search: MarkerSearchOptions = {}): number | null {
+    const match = this.findMarker(document, search);
+    if (!match) {
+      return null;
+    }
+
+    const frontMatterEnd = match.marker === LogMarkerMatcher.FRONT_MATTER_KEY && search.frontMatter
+      ? this.findFrontMatterEnd(document)
+      : null;
+    return (frontMatterEnd ?? match.line) + 1;
+  }
+
+  /**
+   * Matches a single line against the trigger markers, ignoring surrounding whitespace
+   * A marker may also be written inside a line comment, e.g. `// .LOG` for the prefix `//`,
+   * and may be followed by directives such as `.LOG tz=UTC heading=3`
+   * @param line The line text to check
+   * @param options Trigger markers and case sensitivity
+   * @param commentPrefixes Line comment prefixes that may precede the marker, followed by whitespace
+   * @returns The marker that matched, or null if none did
+   */
+  public static matchLine(line: string, options: LogMarkerOptions, commentPrefixes: string[] = []): string | null {
+    return LogMarkerMatcher.matchMarkerLine(line, options, commentPrefixes)?.marker ?? null;
+  }
+
+  /**
+   * Parses the directives written after a trigger marker
+   * Each directive is `key=value`, with the value in double quotes if it contains spaces. The keys are
+   * `format` (a preset name, `iso` for iso8601, or a token pattern), `tz`, `template`, `heading` (1-6)
+   * and `insert` (`top` or `bottom`). Unknown keys and invalid heading levels or positions are ignored.
+   * @param text The text after the marker
+   * @returns The directives, or null if the text is not a list of directives
+   */
+  public static parseDirectives(text: string): LogDirectives | null {
+    const directives: LogDirectives = {};
+    const pattern = new RegExp(LogMarkerMatcher.DIRECTIVE);
+    const trimmed = text.trimEnd();
+
+    while (pattern.lastIndex < trimmed.length) {
+      const match = pattern.exec(trimmed);
+      if (!match) {
+        return null;
+      }
+
+      const value = match[2].replace(/^"(.*)"$/, '$1');
+      switch (match[1].toLowerCase()) {
+        case 'format':
+          directives.format = LogMarkerMatcher.FORMAT_ALIASES[value.toLowerCase()] ?? value;
+          break;
+        case 'tz':
+          directives.timeZone = value;
+          break;
+        case 'template':
+          directives.template = value;
+          break;
+        case 'heading':
+          if (LogMarkerMatcher.HEADING_LEVEL.test(value)) {
+            directives.headingLevel = Number(value);
+          }
+          break;
+        case 'insert':
+          if (isInsertPosition(value)) {
+            directives.insertPosition = value;
+          }
+          break;
+      }
+    }
+
+    return directives;
+  }
+
+  /**
+   * Matches a single line against the trigger markers and reads the directives after the marker
+   * @param line The line text to check
+   * @param options Trigger markers and case sensitivity
+   * @param commentPrefixes Line comment prefixes that may precede the marker, followed by whitespace
+   * @returns The marker that matched and its directives, or null if no marker matched
+   */
+  private static matchMarkerLine(line: string, options: LogMarkerOptions, commentPrefixes: string[] = []): MarkerLineMatch | null {
+    const normalize = (value: string): string => options.caseInsensitive ? value.toLowerCase() : value;
+
+    const text = line.trim();
+    const candidates = [text];
+    for (const prefix of commentPrefixes) {
+      if (prefix.length > 0 && text.startsWith(prefix) && /^\s/.test(text.substring(prefix.length))) {
+        candidates.push(text.substring(prefix.length).trim());
+      }
+    }
+
+    for (const value of options.markers) {
+      const marker = value.trim();
+      if (marker.length === 0) {
+        continue;
+      }
+
+      for (const candidate of candidates) {
+        if (normalize(candidate) === normalize(marker)) {
+          return { marker };
+        }
+
+        const rest = candidate.substring(marker.length);
+        if (/^\s/.test(rest) && normalize(candidate.substring(0, marker.length)) === normalize(marker)) {
+          const directives = LogMarkerMatcher.parseDirectives(rest);
+          if (directives) {
+            return { marker, directives };
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the closing delimiter of a YAML front matter block that opens on the first line
+   * @param document The VS Code text document to check
+   * @returns The line number of the closing delimiter, or null if the document has no front matter
+   */
+  private findFrontMatterEnd(document: DocumentText): number | null {
+    if (document.lineAt(0).text.trimEnd() !== LogMarkerMatcher.FRONT_MATTER_OPEN) {
+      return null;
+    }
+
+    const lastLine = Math.min(document.lineCount, LogMarkerMatcher.FRONT_MATTER_MAX_LINES);
+    for (let line = 1; line < lastLine; line++) {
+      if (LogMarkerMatcher.FRONT_MATTER_CLOSE.has(document.lineAt(line).text.trimEnd())) {
+        return line;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the first line after the header lines at the start of a document
+   * @param document The VS Code text document to check
+   * @param headerPattern Pattern matching header lines, e.g. Org `#+TITLE:` keywords
+   * @returns The first line that is neither a header line nor a blank line following one
+   */
+  private skipHeaderLines(document: DocumentText, headerPattern: RegExp): number {
+    const lastLine = Math.min(document.lineCount, LogMarkerMatcher.FRONT_MATTER_MAX_LINES);
+    let line = 0;
+    let inHeader = false;
+
+    while (line < lastLine) {
+      const text = document.lineAt(line).text;
+      if (headerPattern.test(text)) {
+        inHeader = true;
+      } else if (!inHeader || text.trim().length > 0) {
+        break;
+      }
+      line++;
+    }
+
+    return line;
+  }
+
+  /**
+   * Looks for a dotlog entry inside the front matter, then for a marker after it
+   * @param document The VS Code text document to check
+   * @param frontMatterEnd Line number of the closing front matter delimiter
+   * @param options Trigger markers and case sensitivity
+   * @param commentPrefixes Line comment prefixes that may precede the marker
+   * @returns The matched marker and its line, or null if the document has no marker
+   */
+  private matchAfterFrontMatter(
+    document: DocumentText,
+    frontMatterEnd: number,
+    options: LogMarkerOptions,
+    commentPrefixes?: string[]
+  ): LogMarkerMatch | null {
+    for (let line = 1; line < frontMatterEnd; line++) {
+      const entry = LogMarkerMatcher.FRONT_MATTER_ENTRY.exec(document.lineAt(line).text.trimEnd());
+      if (!entry) {
+        continue;
+      }
+
+      const value = entry[1].toLowerCase();
+      if (LogMarkerMatcher.TRUE_VALUES.has(value)) {
+        return { line, marker: LogMarkerMatcher.FRONT_MATTER_KEY };
+      }
+      if (LogMarkerMatcher.FALSE_VALUES.has(value)) {
+        return null;
+      }
+    }
+
+    for (let line = frontMatterEnd + 1; line < document.lineCount; line++) {
+      const text = document.lineAt(line).text;
+      if (text.trim().length === 0) {
+        continue;
+      }
+
+      const match = LogMarkerMatcher.matchMarkerLine(text, options, commentPrefixes);
+      return match ? { line, ...match } : null;
+    }
+
+    return null;
+  }
+}
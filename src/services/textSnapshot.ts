@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { DocumentText } from '../types';
+
+/**
+ * Read-only text of a file that is not open in an editor
+ * Lets the content analyzer, handlers and entry parser read files found on disk without
+ * opening them as VS Code documents, which would load them into the editor's document model.
+ */
+export class TextSnapshot implements DocumentText {
+  private readonly lines: string[];
+
+  /**
+   * @param uri The file the text was read from
+   * @param text The file's text, or its beginning
+   */
+  constructor(public readonly uri: vscode.Uri, text: string) {
+    this.lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  }
+
+  get fileName(): string {
+    return this.uri.fsPath;
+  }
+
+  // Files are matched to handlers by their extension
+  get languageId(): string {
+    return '';
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  /**
+   * Returns a line of the text
+   * @param line Zero-based line number
+   * @returns The line, shaped like a VS Code TextLine
+   */
+  lineAt(line: number): vscode.TextLine {
+    if (line < 0 || line >= this.lines.length) {
+      throw new Error(`Illegal value for line: ${line}`);
+    }
+
+    const text = this.lines[line];
+    const firstNonWhitespace = text.search(/\S/);
+    return {
+      lineNumber: line,
+      text,
+      range: new vscode.Range(line, 0, line, text.length),
+      rangeIncludingLineBreak: line < this.lines.length - 1
+        ? new vscode.Range(line, 0, line + 1, 0)
+        : new vscode.Range(line, 0, line, text.length),
+      firstNonWhitespaceCharacterIndex: firstNonWhitespace === -1 ? text.length : firstNonWhitespace,
+      isEmptyOrWhitespace: firstNonWhitespace === -1
+    };
+  }
+
+  /**
+   * Returns the whole text with LF line breaks
+   * @returns The text
+   */
+  getText(): string {
+    return this.lines.join('\n');
+  }
+}
@@ -1,46 +1,168 @@
-import { ITimestampService, OperationResult, ErrorCode } from '../types';
+import {
+  ITimestampService,
+  OperationResult,
+  ErrorCode,
+  TimestampOptions,
+  TimestampPreset,
+  TimeZoneSuffix,
+  isTimestampPreset
+} from '../types';
+
+/**
+ * A single piece of a parsed timestamp format string
+ */
+interface FormatToken {
+  type: 'field' | 'literal';
+  value: string;
+}
+
+/**
+ * Calendar and clock fields of a date, resolved in the time zone being formatted
+ */
+interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hours: number;
+  minutes: number;
+  seconds: number;
+  offsetMinutes: number;
+}
+
+/**
+ * Calendar and clock fields read from a timestamp being parsed
+ */
+interface ParsedParts {
+  year?: number;
+  month?: number; // 1-12
+  day?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  period?: number; // 0 = AM, 1 = PM
+  offsetMinutes?: number;
+}
+
+/**
+ * A piece of a timestamp being parsed: a regular expression source, and the field it captures.
+ * Fields with names capture the index of the matched name (plus one for months).
+ */
+interface ParseField {
+  pattern: string;
+  field?: keyof ParsedParts;
+  names?: string[];
+  optional?: boolean;
+}
+
+/**
+ * How a named preset produces its output: a token pattern, or Intl formats joined by spaces
+ */
+interface PresetDefinition {
+  pattern?: string;
+  utc?: boolean;
+  intlFormats?: Intl.DateTimeFormatOptions[];
+}
 
 /**
  * Service responsible for generating and formatting timestamps
- * Implements the "YYYY-MM-DD HH:MM AM/PM" format as specified in requirements 3.1 and 3.4
+ * Defaults to the "YYYY-MM-DD HH:MM AM/PM" format as specified in requirements 3.1 and 3.4,
+ * and accepts a token-based format string or a named preset (see TimestampService.isValidFormat).
+ * Timestamps use local time unless a time zone ("UTC" or an IANA zone) is set; zones are resolved
+ * with Intl so the output does not depend on the host's TZ setting.
  */
 export class TimestampService implements ITimestampService {
+  public static readonly DEFAULT_FORMAT = 'YYYY-MM-DD hh:mm A';
+
+  // Longest tokens first so "YYYY" is never read as two "YY" tokens; [text] escapes literal text
+  private static readonly TOKEN_PATTERN = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|H|hh|h|mm|m|ss|s|A|a|ZZ|Z/y;
+  private static readonly MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+  private static readonly DAY_NAMES = [
+    'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'
+  ];
+  private static readonly PRESETS: Record<TimestampPreset, PresetDefinition> = {
+    [TimestampPreset.DEFAULT]: { pattern: TimestampService.DEFAULT_FORMAT },
+    // Windows Notepad writes the short time followed by the short date, e.g. "2:30 PM 10/19/2026"
+    [TimestampPreset.NOTEPAD]: {
+      intlFormats: [
+        { hour: 'numeric', minute: '2-digit' },
+        { year: 'numeric', month: 'numeric', day: 'numeric' }
+      ]
+    },
+    [TimestampPreset.ISO8601]: { pattern: 'YYYY-MM-DD[T]HH:mm:ssZ' },
+    [TimestampPreset.ISO8601_UTC]: { pattern: 'YYYY-MM-DD[T]HH:mm:ss[Z]', utc: true },
+    [TimestampPreset.RFC2822]: { pattern: 'ddd, DD MMM YYYY HH:mm:ss ZZ' },
+    [TimestampPreset.LOCALE]: {
+      intlFormats: [
+        { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }
+      ]
+    }
+  };
+
+  private format: string = TimestampService.DEFAULT_FORMAT;
+  private locale: string | undefined;
+  private timeZone: string | undefined;
+  private timeZoneSuffix: TimeZoneSuffix = TimeZoneSuffix.NONE;
+
+  /**
+   * Creates a timestamp service
+   * @param format Optional format string or preset name; invalid formats fall back to the default
+   * @param locale Optional BCP 47 locale used by the "notepad" and "locale" presets
+   */
+  constructor(format?: string, locale?: string) {
+    if (format !== undefined) {
+      this.setFormat(format);
+    }
+    if (locale !== undefined) {
+      this.setLocale(locale);
+    }
+  }
+
   /**
    * Generates a timestamp using the current date and time
-   * @returns Formatted timestamp string in "YYYY-MM-DD HH:MM AM/PM" format
+   * @returns Formatted timestamp string in the active format
    */
   generateTimestamp(): string {
     return this.formatTimestamp(new Date());
   }
 
   /**
-   * Formats a given date into the required timestamp format
+   * Formats a given date into the active timestamp format
    * @param date - The date to format
-   * @returns Formatted timestamp string in "YYYY-MM-DD HH:MM AM/PM" format
+   * @param options - Optional format and time zone overriding the active settings; invalid values are ignored.
+   * An explicit format carries no time zone suffix unless one is passed with it
+   * @returns Formatted timestamp string, "YYYY-MM-DD HH:MM AM/PM" unless a custom format is set
    */
-  formatTimestamp(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
+  formatTimestamp(date: Date, options: TimestampOptions = {}): string {
+    const format = TimestampService.isValidFormat(options.format) ? options.format : this.format;
+    const timeZone = options.timeZone === undefined ? this.timeZone : this.resolveTimeZone(options.timeZone);
+    const timeZoneSuffix = this.resolveTimeZoneSuffix(options);
 
-    // Convert to 12-hour format
-    const hours24 = date.getHours();
-    const hours12 = hours24 === 0 ? 12 : hours24 > 12 ? hours24 - 12 : hours24;
-    const ampm = hours24 >= 12 ? 'PM' : 'AM';
+    let timestamp: string;
+    let suffixTimeZone = timeZone;
 
-    const hours = String(hours12).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
+    if (isTimestampPreset(format)) {
+      const preset = TimestampService.PRESETS[format];
+      suffixTimeZone = preset.utc ? 'UTC' : timeZone;
+      timestamp = this.formatPreset(date, preset, timeZone);
+    } else {
+      timestamp = this.formatPattern(date, format, timeZone);
+    }
 
-    return `${year}-${month}-${day} ${hours}:${minutes} ${ampm}`;
+    return timestamp + this.formatSuffix(date, suffixTimeZone, timeZoneSuffix);
   }
 
   /**
    * Gets the current timestamp with error handling
+   * @param options Optional settings overriding the active ones, e.g. from a workspace folder
    * @returns OperationResult containing the timestamp or error information
    */
-  getCurrentTimestamp(): OperationResult<string> {
+  getCurrentTimestamp(options?: TimestampOptions): OperationResult<string> {
     try {
-      const timestamp = this.generateTimestamp();
+      const timestamp = options === undefined ? this.generateTimestamp() : this.formatTimestamp(new Date(), options);
       return {
         success: true,
         data: timestamp
@@ -53,4 +175,638 @@ export class TimestampService implements ITimestampService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Parses a timestamp written in the active format back into a date
+   * A trailing time zone suffix is accepted but not required; weekday names are matched but not checked.
+   * Formats without a year use the current year.
+   * @param text The timestamp text, e.g. "2026-10-19 02:30 PM"
+   * @param options Optional format and time zone overriding the active settings, as passed to formatTimestamp
+   * @returns The parsed date, or null if the text doesn't match the format or the format has no month and day
+   */
+  parseTimestamp(text: string, options: TimestampOptions = {}): Date | null {
+    return this.createParser(options)(text);
+  }
+
+  /**
+   * Creates a parser for timestamps in one format, for parsing many lines without rebuilding the pattern
+   * @param options Optional format and time zone overriding the active settings, as passed to formatTimestamp
+   * @returns Function behaving like parseTimestamp with the given options
+   */
+  createParser(options: TimestampOptions = {}): (text: string) => Date | null {
+    const format = TimestampService.isValidFormat(options.format) ? options.format : this.format;
+    let timeZone = options.timeZone === undefined ? this.timeZone : this.resolveTimeZone(options.timeZone);
+    const timeZoneSuffix = this.resolveTimeZoneSuffix(options);
+
+    let fields: ParseField[];
+    if (isTimestampPreset(format)) {
+      const preset = TimestampService.PRESETS[format];
+      timeZone = preset.utc ? 'UTC' : timeZone;
+      fields = preset.intlFormats
+        ? this.getIntlParseFields(preset.intlFormats)
+        : TimestampService.getPatternParseFields(preset.pattern || TimestampService.DEFAULT_FORMAT);
+    } else {
+      fields = TimestampService.getPatternParseFields(format);
+    }
+
+    if (timeZoneSuffix === TimeZoneSuffix.OFFSET) {
+      fields.push({ pattern: ' [+-]\\d{2}:\\d{2}', field: 'offsetMinutes', optional: true });
+    } else if (timeZoneSuffix === TimeZoneSuffix.ABBREVIATION) {
+      fields.push({ pattern: ' [A-Za-z][\\w+:-]*', optional: true });
+    }
+
+    const source = fields
+      .map(field => {
+        const fieldSource = field.field ? `(${field.pattern})` : field.pattern;
+        return field.optional ? `(?:${fieldSource})?` : fieldSource;
+      })
+      .join('');
+    const pattern = new RegExp(`^${source}$`, 'i');
+
+    return (text: string): Date | null => {
+      const match = pattern.exec(text.trim());
+      if (!match) {
+        return null;
+      }
+
+      const parts: ParsedParts = {};
+      let group = 1;
+      for (const field of fields) {
+        if (!field.field) {
+          continue;
+        }
+
+        const value = match[group++];
+        if (value === undefined) {
+          continue;
+        }
+
+        if (field.field === 'offsetMinutes') {
+          const offset = /^([+-])(\d{2}):?(\d{2})$/.exec(value.trim());
+          parts.offsetMinutes = offset ? (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3])) : undefined;
+        } else if (field.names) {
+          const index = field.names.findIndex(name => name.toLowerCase() === value.toLowerCase());
+          parts[field.field] = field.field === 'month' ? index + 1 : index;
+        } else {
+          parts[field.field] = Number(value);
+        }
+      }
+
+      return this.toDate(parts, timeZone);
+    };
+  }
+
+  /**
+   * Sets the format used for new timestamps
+   * @param format Token-based format string or preset name
+   * @returns true if the format was applied, false if it was invalid and the default format is used instead
+   */
+  setFormat(format: string): boolean {
+    if (!TimestampService.isValidFormat(format)) {
+      this.format = TimestampService.DEFAULT_FORMAT;
+      return false;
+    }
+
+    this.format = format;
+    return true;
+  }
+
+  /**
+   * Gets the format currently used for new timestamps
+   * @returns The active format string or preset name
+   */
+  getFormat(): string {
+    return this.format;
+  }
+
+  /**
+   * Sets the locale used by locale-aware presets
+   * @param locale BCP 47 locale such as "en-US"; empty or unsupported locales use the runtime default
+   * @returns true if the locale was applied, false if the runtime default is used instead
+   */
+  setLocale(locale: string): boolean {
+    try {
+      const supported = locale.length > 0 && Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+      this.locale = supported ? locale : undefined;
+      return supported;
+    } catch (error) {
+      // Malformed language tags throw a RangeError
+      this.locale = undefined;
+      return false;
+    }
+  }
+
+  /**
+   * Gets the locale used by locale-aware presets
+   * @returns The active locale, or undefined when the runtime default is used
+   */
+  getLocale(): string | undefined {
+    return this.locale;
+  }
+
+  /**
+   * Sets the time zone used for new timestamps
+   * @param timeZone "UTC", an IANA zone such as "Europe/Berlin", or an empty string for local time
+   * @returns true if the time zone was applied, false if it was invalid and local time is used instead
+   */
+  setTimeZone(timeZone: string): boolean {
+    this.timeZone = this.resolveTimeZone(timeZone);
+    return timeZone.trim().length === 0 || this.timeZone !== undefined;
+  }
+
+  /**
+   * Gets the time zone used for new timestamps
+   * @returns The active time zone, or undefined for local time
+   */
+  getTimeZone(): string | undefined {
+    return this.timeZone;
+  }
+
+  /**
+   * Sets the suffix appended to timestamps to identify their time zone
+   * @param suffix none, offset ("+02:00") or abbreviation ("CEST", "GMT+2")
+   */
+  setTimeZoneSuffix(suffix: TimeZoneSuffix): void {
+    this.timeZoneSuffix = suffix;
+  }
+
+  /**
+   * Checks whether a time zone name is supported by the runtime
+   * @param timeZone "UTC" or an IANA time zone name
+   * @returns true if Intl can format dates in the time zone
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone.trim().length > 0;
+    } catch (error) {
+      // Unknown zones throw a RangeError
+      return false;
+    }
+  }
+
+  /**
+   * Validates a format string
+   * Accepts a preset name (default, notepad, iso8601, iso8601-utc, rfc2822, locale) or a token pattern.
+   * Supported tokens: YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd, ddd, HH, H, hh, h, mm, m, ss, s, A, a, Z, ZZ.
+   * Other letters must be wrapped in square brackets, e.g. "[Week of] YYYY-MM-DD"
+   * @param format The format string to validate
+   * @returns true if the format is a preset or contains at least one token and no unknown letters
+   */
+  static isValidFormat(format: unknown): format is string {
+    if (typeof format !== 'string' || format.trim().length === 0) {
+      return false;
+    }
+
+    if (isTimestampPreset(format)) {
+      return true;
+    }
+
+    const tokens = TimestampService.tokenize(format);
+    return tokens !== null && tokens.some(token => token.type === 'field');
+  }
+
+  /**
+   * Splits a format string into field and literal tokens
+   * @param format The format string to tokenize
+   * @returns Array of tokens, or null if the format contains unknown letters or an unclosed bracket
+   */
+  private static tokenize(format: string): FormatToken[] | null {
+    const tokens: FormatToken[] = [];
+    const pattern = TimestampService.TOKEN_PATTERN;
+    let index = 0;
+
+    while (index < format.length) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(format);
+
+      if (match) {
+        const value = match[0];
+        if (value.startsWith('[')) {
+          tokens.push({ type: 'literal', value: value.slice(1, -1) });
+        } else {
+          tokens.push({ type: 'field', value });
+        }
+        index += value.length;
+        continue;
+      }
+
+      const char = format[index];
+      if (/[A-Za-z[\]]/.test(char)) {
+        return null;
+      }
+
+      tokens.push({ type: 'literal', value: char });
+      index++;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Builds the parse fields for a token pattern
+   * @param format The format string
+   * @returns Parse fields in format order; invalid formats use the default format
+   */
+  private static getPatternParseFields(format: string): ParseField[] {
+    const tokens = TimestampService.tokenize(format) || TimestampService.tokenize(TimestampService.DEFAULT_FORMAT)!;
+    const shortNames = (names: string[]) => names.map(name => name.slice(0, 3));
+
+    return tokens.map((token): ParseField => {
+      if (token.type === 'literal') {
+        return { pattern: TimestampService.escapeRegExp(token.value) };
+      }
+
+      switch (token.value) {
+        case 'YYYY':
+          return { pattern: '\\d{4}', field: 'year' };
+        case 'YY':
+          return { pattern: '\\d{2}', field: 'year' };
+        case 'MMMM':
+          return { pattern: TimestampService.MONTH_NAMES.join('|'), field: 'month', names: TimestampService.MONTH_NAMES };
+        case 'MMM': {
+          const names = shortNames(TimestampService.MONTH_NAMES);
+          return { pattern: names.join('|'), field: 'month', names };
+        }
+        case 'dddd':
+          return { pattern: `(?:${TimestampService.DAY_NAMES.join('|')})` };
+        case 'ddd':
+          return { pattern: `(?:${shortNames(TimestampService.DAY_NAMES).join('|')})` };
+        case 'MM':
+        case 'M':
+          return { pattern: token.value === 'MM' ? '\\d{2}' : '\\d{1,2}', field: 'month' };
+        case 'DD':
+        case 'D':
+          return { pattern: token.value === 'DD' ? '\\d{2}' : '\\d{1,2}', field: 'day' };
+        case 'HH':
+        case 'H':
+        case 'hh':
+        case 'h':
+          return { pattern: token.value.length === 2 ? '\\d{2}' : '\\d{1,2}', field: 'hours' };
+        case 'mm':
+        case 'm':
+          return { pattern: token.value === 'mm' ? '\\d{2}' : '\\d{1,2}', field: 'minutes' };
+        case 'ss':
+        case 's':
+          return { pattern: token.value === 'ss' ? '\\d{2}' : '\\d{1,2}', field: 'seconds' };
+        case 'A':
+        case 'a':
+          return { pattern: 'AM|PM', field: 'period', names: ['AM', 'PM'] };
+        case 'Z':
+          return { pattern: '[+-]\\d{2}:\\d{2}', field: 'offsetMinutes' };
+        default:
+          return { pattern: '[+-]\\d{4}', field: 'offsetMinutes' };
+      }
+    });
+  }
+
+  /**
+   * Builds the parse fields for an Intl-based preset from the locale's date parts
+   * Month and day period names are collected from the same formatter, so localized names are recognized
+   * @param intlFormats The preset's Intl formats, joined by spaces
+   * @returns Parse fields in output order
+   */
+  private getIntlParseFields(intlFormats: Intl.DateTimeFormatOptions[]): ParseField[] {
+    const fields: ParseField[] = [];
+
+    intlFormats.forEach((options, index) => {
+      if (index > 0) {
+        fields.push({ pattern: ' ' });
+      }
+
+      const formatter = new Intl.DateTimeFormat(this.locale, { ...options, timeZone: 'UTC' });
+      const partOf = (date: number, type: Intl.DateTimeFormatPartTypes) =>
+        TimestampService.normalizeSpaces(formatter.formatToParts(date).find(part => part.type === type)?.value || '');
+
+      for (const part of formatter.formatToParts(Date.UTC(2026, 0, 15, 13, 5, 9))) {
+        const value = TimestampService.normalizeSpaces(part.value);
+
+        switch (part.type) {
+          case 'literal':
+            fields.push({ pattern: TimestampService.escapeRegExp(value) });
+            break;
+          case 'year':
+            fields.push({ pattern: '\\d{2,4}', field: 'year' });
+            break;
+          case 'month':
+            if (/^\d+$/.test(value)) {
+              fields.push({ pattern: '\\d{1,2}', field: 'month' });
+            } else {
+              const names = Array.from({ length: 12 }, (_, month) => partOf(Date.UTC(2026, month, 15), 'month'));
+              fields.push({ pattern: names.map(TimestampService.escapeRegExp).join('|'), field: 'month', names });
+            }
+            break;
+          case 'day':
+            fields.push({ pattern: '\\d{1,2}', field: 'day' });
+            break;
+          case 'hour':
+            fields.push({ pattern: '\\d{1,2}', field: 'hours' });
+            break;
+          case 'minute':
+            fields.push({ pattern: '\\d{2}', field: 'minutes' });
+            break;
+          case 'second':
+            fields.push({ pattern: '\\d{2}', field: 'seconds' });
+            break;
+          case 'dayPeriod': {
+            const names = [partOf(Date.UTC(2026, 0, 15, 1), 'dayPeriod'), partOf(Date.UTC(2026, 0, 15, 13), 'dayPeriod')];
+            fields.push({ pattern: names.map(TimestampService.escapeRegExp).join('|'), field: 'period', names });
+            break;
+          }
+          default:
+            fields.push({ pattern: '.+?' });
+        }
+      }
+    });
+
+    return fields;
+  }
+
+  /**
+   * Converts parsed timestamp fields into a date
+   * @param parts The parsed fields
+   * @param timeZone The time zone the timestamp was written in, or undefined for local time; a parsed offset takes precedence
+   * @returns The date, or null if the month or day is missing or a field is out of range
+   */
+  private toDate(parts: ParsedParts, timeZone: string | undefined): Date | null {
+    const { month, day, minutes = 0, seconds = 0 } = parts;
+    if (month === undefined || day === undefined) {
+      return null;
+    }
+
+    let year = parts.year === undefined ? new Date().getFullYear() : parts.year;
+    year = year < 100 ? 2000 + year : year;
+
+    let hours = parts.hours || 0;
+    if (parts.period !== undefined) {
+      if (parts.period < 0 || hours > 12) {
+        return null;
+      }
+      hours = hours % 12 + parts.period * 12;
+    }
+
+    if (month < 1 || month > 12 || hours > 23 || minutes > 59 || seconds > 59) {
+      return null;
+    }
+
+    // Reject days that don't exist in the month, such as February 30
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    if (day < 1 || new Date(wallClockAsUtc).getUTCDate() !== day) {
+      return null;
+    }
+
+    if (parts.offsetMinutes !== undefined) {
+      return new Date(wallClockAsUtc - parts.offsetMinutes * 60000);
+    }
+
+    if (timeZone !== undefined) {
+      // The zone's offset at the first guess can differ across a DST change; a second pass settles it
+      let instant = wallClockAsUtc - this.getZonedDateParts(new Date(wallClockAsUtc), timeZone).offsetMinutes * 60000;
+      instant = wallClockAsUtc - this.getZonedDateParts(new Date(instant), timeZone).offsetMinutes * 60000;
+      return new Date(instant);
+    }
+
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+
+  /**
+   * Escapes text for use in a regular expression
+   * @param text The literal text
+   * @returns The escaped text
+   */
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Replaces the narrow and regular no-break spaces that newer ICU versions put into dates with plain spaces
+   * @param text Text produced by Intl
+   * @returns The text with plain spaces
+   */
+  private static normalizeSpaces(text: string): string {
+    return text.replace(/[\u202f\u00a0]/g, ' ');
+  }
+
+  /**
+   * Resolves a configured time zone name
+   * @param timeZone "UTC", an IANA zone, or an empty string for local time
+   * @returns The time zone to use, or undefined for local time (also for invalid zones)
+   */
+  private resolveTimeZone(timeZone: string): string | undefined {
+    const trimmed = timeZone.trim();
+    return TimestampService.isValidTimeZone(trimmed) ? trimmed : undefined;
+  }
+
+  /**
+   * Resolves the time zone suffix for a format or parse call
+   * @param options The options passed to the call
+   * @returns The passed suffix, none for an explicit format without one, otherwise the active suffix
+   */
+  private resolveTimeZoneSuffix(options: TimestampOptions): TimeZoneSuffix {
+    if (options.timeZoneSuffix) {
+      return options.timeZoneSuffix;
+    }
+    return TimestampService.isValidFormat(options.format) ? TimeZoneSuffix.NONE : this.timeZoneSuffix;
+  }
+
+  /**
+   * Formats a date with a named preset
+   * @param date The date to format
+   * @param preset The preset definition
+   * @param timeZone The time zone to format in, or undefined for local time
+   * @returns The formatted timestamp
+   */
+  private formatPreset(date: Date, preset: PresetDefinition, timeZone: string | undefined): string {
+    if (preset.intlFormats) {
+      return preset.intlFormats
+        .map(options => new Intl.DateTimeFormat(this.locale, { ...options, timeZone }).format(date))
+        .join(' ')
+        // Newer ICU versions separate "2:30" and "PM" with a narrow no-break space
+        .replace(/[\u202f\u00a0]/g, ' ');
+    }
+
+    return this.formatPattern(date, preset.pattern || TimestampService.DEFAULT_FORMAT, preset.utc ? 'UTC' : timeZone);
+  }
+
+  /**
+   * Builds the time zone suffix appended after the formatted timestamp
+   * @param date The date being formatted
+   * @param timeZone The time zone the date was formatted in, or undefined for local time
+   * @param suffix The kind of suffix to build
+   * @returns The suffix including its leading space, or an empty string
+   */
+  private formatSuffix(date: Date, timeZone: string | undefined, suffix: TimeZoneSuffix): string {
+    switch (suffix) {
+      case TimeZoneSuffix.OFFSET:
+        return ' ' + this.formatOffset(this.getDateParts(date, timeZone).offsetMinutes, ':');
+      case TimeZoneSuffix.ABBREVIATION: {
+        const zoneName = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+          .formatToParts(date)
+          .find(part => part.type === 'timeZoneName');
+        return zoneName ? ' ' + zoneName.value : '';
+      }
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Formats a date with a token pattern
+   * @param date The date to format
+   * @param format A valid token pattern
+   * @param timeZone The time zone to format in, or undefined for local time
+   * @returns The formatted timestamp
+   */
+  private formatPattern(date: Date, format: string, timeZone: string | undefined): string {
+    const tokens = TimestampService.tokenize(format) || TimestampService.tokenize(TimestampService.DEFAULT_FORMAT)!;
+    const parts = this.getDateParts(date, timeZone);
+
+    return tokens
+      .map(token => token.type === 'literal' ? token.value : this.formatField(token.value, parts))
+      .join('');
+  }
+
+  /**
+   * Resolves the calendar and clock fields of a date
+   * @param date The date to resolve
+   * @param timeZone The time zone to resolve the fields in, or undefined for local time
+   * @returns The resolved date parts
+   */
+  private getDateParts(date: Date, timeZone: string | undefined): DateParts {
+    if (timeZone !== undefined) {
+      return this.getZonedDateParts(date, timeZone);
+    }
+
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      seconds: date.getSeconds(),
+      offsetMinutes: -date.getTimezoneOffset()
+    };
+  }
+
+  /**
+   * Resolves the calendar and clock fields of a date in a specific time zone using Intl
+   * @param date The date to resolve
+   * @param timeZone "UTC" or an IANA time zone name
+   * @returns The resolved date parts, including the zone's UTC offset at that instant
+   */
+  private getZonedDateParts(date: Date, timeZone: string): DateParts {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    });
+
+    const values: Record<string, string> = {};
+    formatter.formatToParts(date).forEach(part => {
+      values[part.type] = part.value;
+    });
+
+    const year = Number(values.year);
+    const month = Number(values.month);
+    const day = Number(values.day);
+    const hours = Number(values.hour) % 24;
+    const minutes = Number(values.minute);
+    const seconds = Number(values.second);
+
+    // The zone's offset is the difference between its wall-clock time read as UTC and the actual instant
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    const instant = date.getTime() - date.getMilliseconds();
+    const offsetMinutes = Math.round((wallClockAsUtc - instant) / 60000);
+
+    return {
+      year,
+      month,
+      day,
+      weekday: TimestampService.DAY_NAMES.findIndex(name => name.startsWith(values.weekday)),
+      hours,
+      minutes,
+      seconds,
+      offsetMinutes
+    };
+  }
+
+  /**
+   * Formats a single field token
+   * @param token The field token, e.g. "YYYY" or "hh"
+   * @param parts The resolved date parts
+   * @returns The formatted field value
+   */
+  private formatField(token: string, parts: DateParts): string {
+    const hours12 = parts.hours === 0 ? 12 : parts.hours > 12 ? parts.hours - 12 : parts.hours;
+
+    switch (token) {
+      case 'YYYY':
+        return String(parts.year);
+      case 'YY':
+        return String(parts.year % 100).padStart(2, '0');
+      case 'MMMM':
+        return TimestampService.MONTH_NAMES[parts.month - 1];
+      case 'MMM':
+        return TimestampService.MONTH_NAMES[parts.month - 1].slice(0, 3);
+      case 'MM':
+        return String(parts.month).padStart(2, '0');
+      case 'M':
+        return String(parts.month);
+      case 'dddd':
+        return TimestampService.DAY_NAMES[parts.weekday];
+      case 'ddd':
+        return TimestampService.DAY_NAMES[parts.weekday].slice(0, 3);
+      case 'DD':
+        return String(parts.day).padStart(2, '0');
+      case 'D':
+        return String(parts.day);
+      case 'HH':
+        return String(parts.hours).padStart(2, '0');
+      case 'H':
+        return String(parts.hours);
+      case 'hh':
+        return String(hours12).padStart(2, '0');
+      case 'h':
+        return String(hours12);
+      case 'mm':
+        return String(parts.minutes).padStart(2, '0');
+      case 'm':
+        return String(parts.minutes);
+      case 'ss':
+        return String(parts.seconds).padStart(2, '0');
+      case 's':
+        return String(parts.seconds);
+      case 'A':
+        return parts.hours >= 12 ? 'PM' : 'AM';
+      case 'a':
+        return parts.hours >= 12 ? 'pm' : 'am';
+      case 'Z':
+        return this.formatOffset(parts.offsetMinutes, ':');
+      case 'ZZ':
+        return this.formatOffset(parts.offsetMinutes, '');
+      default:
+        return token;
+    }
+  }
+
+  /**
+   * Formats a UTC offset such as "+02:00" or "-0530"
+   * @param offsetMinutes Offset from UTC in minutes
+   * @param separator Separator between hours and minutes
+   * @returns The formatted offset
+   */
+  private formatOffset(offsetMinutes: number, separator: string): string {
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const absolute = Math.abs(offsetMinutes);
+    const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+    const minutes = String(absolute % 60).padStart(2, '0');
+    return `${sign}${hours}${separator}${minutes}`;
+  }
+}
@@ -0,0 +1,237 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AsciiDocFileHandler } from '../../handlers/asciiDocFileHandler';
+import { IDocumentEditor, OperationResult } from '../../types';
+
+// Mock document editor for testing
+class MockDocumentEditor implements IDocumentEditor {
+  private canModify: boolean = true;
+  private insertSuccess: boolean = true;
+  private positionSuccess: boolean = true;
+
+  setCanModify(canModify: boolean): void {
+    this.canModify = canModify;
+  }
+
+  setInsertSuccess(success: boolean): void {
+    this.insertSuccess = success;
+  }
+
+  setPositionSuccess(success: boolean): void {
+    this.positionSuccess = success;
+  }
+
+  canModifyDocument(document: vscode.TextDocument): boolean {
+    return this.canModify;
+  }
+
+  async insertTextAtEnd(document: vscode.TextDocument, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async positionCursorAtEnd(document: vscode.TextDocument): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
+  async positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
+}
+
+// Mock text document for testing
+class MockTextDocument implements vscode.TextDocument {
+  constructor(
+    public fileName: string,
+    public languageId: string = 'markdown',
+    private lines: string[] = ['.LOG']
+  ) { }
+
+  get encoding(): string {
+    return 'utf8';
+  }
+
+  get uri(): vscode.Uri {
+    return vscode.Uri.file(this.fileName);
+  }
+
+  get version(): number {
+    return 1;
+  }
+
+  get isDirty(): boolean {
+    return false;
+  }
+
+  get isClosed(): boolean {
+    return false;
+  }
+
+  get isUntitled(): boolean {
+    return false;
+  }
+
+  get eol(): vscode.EndOfLine {
+    return vscode.EndOfLine.LF;
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  lineAt(line: number): vscode.TextLine;
+  lineAt(position: vscode.Position): vscode.TextLine;
+  lineAt(lineOrPosition: number | vscode.Position): vscode.TextLine {
+    const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+    const text = this.lines[lineNumber] || '';
+    return {
+      lineNumber,
+      text,
+      range: new vscode.Range(lineNumber, 0, lineNumber, text.length),
+      rangeIncludingLineBreak: new vscode.Range(lineNumber, 0, lineNumber + 1, 0),
+      firstNonWhitespaceCharacterIndex: text.search(/\S/),
+      isEmptyOrWhitespace: text.trim().length === 0
+    };
+  }
+
+  offsetAt(position: vscode.Position): number {
+    return 0;
+  }
+
+  positionAt(offset: number): vscode.Position {
+    return new vscode.Position(0, 0);
+  }
+
+  getText(range?: vscode.Range): string {
+    return this.lines.join('\n');
+  }
+
+  getWordRangeAtPosition(position: vscode.Position, regex?: RegExp): vscode.Range | undefined {
+    return undefined;
+  }
+
+  validateRange(range: vscode.Range): vscode.Range {
+    return range;
+  }
+
+  validatePosition(position: vscode.Position): vscode.Position {
+    return position;
+  }
+
+  save(): Thenable<boolean> {
+    return Promise.resolve(true);
+  }
+}
+
+suite('AsciiDocFileHandler Tests', () => {
+  let handler: AsciiDocFileHandler;
+  let mockEditor: MockDocumentEditor;
+
+  setup(() => {
+    mockEditor = new MockDocumentEditor();
+    handler = new AsciiDocFileHandler(mockEditor);
+  });
+
+  suite('canHandle', () => {
+    test('should return true for .adoc file with .LOG prefix', () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['.LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return true for .adoc file with .LOG in a line comment', () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['// .LOG', '= Runbook']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return true for .asciidoc files', () => {
+      const document = new MockTextDocument('runbook.asciidoc', 'asciidoc', ['// .LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return false for .adoc file without .LOG prefix', () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['= Runbook', '// .LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+
+    test('should require whitespace after the comment prefix', () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['//.LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+
+    test('should return false for non-AsciiDoc file even with .LOG comment', () => {
+      const document = new MockTextDocument('runbook.txt', 'plaintext', ['// .LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+  });
+
+  suite('getFileType', () => {
+    test('should return the adoc file type', () => {
+      assert.strictEqual(handler.getFileType(), 'adoc');
+    });
+  });
+
+  suite('formatTimestamp', () => {
+    test('should format timestamp as a level 1 section title', () => {
+      const formatted = handler.formatTimestamp('2025-08-08 14:30');
+      assert.strictEqual(formatted, '\n== 2025-08-08 14:30\n');
+    });
+
+    test('should write the section level set on the trigger line with one more =', () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['// .LOG heading=2']);
+
+      assert.strictEqual(handler.formatTimestamp('2025-08-08 14:30', document), '\n=== 2025-08-08 14:30\n');
+    });
+
+    test('should ignore section levels beyond 5', () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['// .LOG heading=6']);
+
+      assert.strictEqual(handler.formatTimestamp('2025-08-08 14:30', document), '\n== 2025-08-08 14:30\n');
+    });
+  });
+
+  suite('processDocument', () => {
+    test('should successfully process AsciiDoc document', async () => {
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['// .LOG', '= Runbook']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:30');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(result.timestamp, '\n== 2025-08-08 14:30\n');
+    });
+
+    test('should fail when document cannot be modified', async () => {
+      mockEditor.setCanModify(false);
+      const document = new MockTextDocument('runbook.adoc', 'asciidoc', ['// .LOG']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:30');
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.documentModified, false);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CalendarPanel } from '../../webviews/calendarPanel';
+import { OpenCalendarCommand } from '../../commands/openCalendarCommand';
+import { TimestampService } from '../../services/timestampService';
+import { ConfigurationService } from '../../services/configurationService';
+import {
+  ILogFileIndex,
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions,
+  LogEntry,
+  LogFile,
+  TimeZoneSuffix
+} from '../../types';
+
+class MockLogFileIndex implements ILogFileIndex {
+  private changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  public files: LogFile[] = [];
+
+  async getFiles(): Promise<LogFile[]> {
+    return this.files;
+  }
+
+  async refresh(): Promise<void> {
+    this.changeEmitter.fire();
+  }
+}
+
+// Mock configuration service whose time zone depends on the workspace folder of the scope
+class MockConfigurationService implements IConfigurationService {
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  constructor(private folderTimeZones: Record<string, string>) {}
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return { ...ConfigurationService.getDefaultConfig(), ...this.getTimestampOptions(scope) };
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    // The panel scopes by file URI
+    const path = (scope as vscode.Uri | undefined)?.path ?? '';
+    const folder = Object.keys(this.folderTimeZones).find(candidate => path.startsWith(candidate));
+    return { timeZone: folder ? this.folderTimeZones[folder] : 'UTC' };
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    const config = this.getConfig(scope);
+    return { markers: config.triggerMarkers, caseInsensitive: config.caseInsensitiveMarkers };
+  }
+}
+
+suite('CalendarPanel Test Suite', () => {
+  let fileIndex: MockLogFileIndex;
+  let panel: CalendarPanel;
+
+  function createEntry(line: number, date: Date, text: string): LogEntry {
+    return {
+      timestamp: date.toISOString(),
+      date,
+      title: text.split('\n')[0],
+      text,
+      headerRange: new vscode.Range(line, 0, line, 10),
+      range: new vscode.Range(line, 0, line + 1, 10)
+    };
+  }
+
+  function createFile(fileName: string, entries: LogEntry[]): LogFile {
+    return {
+      uri: vscode.Uri.file(`/workspace/${fileName}`),
+      fileType: 'txt',
+      entries
+    };
+  }
+
+  const work = createFile('work.txt', [
+    createEntry(1, new Date(2025, 7, 1, 17, 0), 'Wrap up'),
+    createEntry(4, new Date(2025, 7, 4, 9, 0), 'Review <release> notes')
+  ]);
+  const home = createFile('home.log', [
+    createEntry(1, new Date(2025, 7, 1, 8, 0), 'Breakfast')
+  ]);
+
+  setup(() => {
+    fileIndex = new MockLogFileIndex();
+    fileIndex.files = [work, home];
+    panel = new CalendarPanel(fileIndex, new TimestampService(), ConfigurationService.getInstance());
+  });
+
+  teardown(() => {
+    panel.dispose();
+  });
+
+  test('should group entries of all files by day in chronological order', () => {
+    const entriesByDay = panel.groupEntriesByDay(fileIndex.files);
+
+    assert.deepStrictEqual([...entriesByDay.keys()].sort(), ['2025-08-01', '2025-08-04']);
+    assert.deepStrictEqual(entriesByDay.get('2025-08-01')!.map(({ entry }) => entry.title), ['Breakfast', 'Wrap up']);
+    assert.strictEqual(entriesByDay.get('2025-08-01')![0].file, home);
+  });
+
+  test('should group entries by day with a time zone suffix configured', () => {
+    const timestampService = new TimestampService();
+    timestampService.setTimeZoneSuffix(TimeZoneSuffix.ABBREVIATION);
+    const suffixPanel = new CalendarPanel(fileIndex, timestampService, ConfigurationService.getInstance());
+
+    try {
+      assert.deepStrictEqual([...suffixPanel.groupEntriesByDay(fileIndex.files).keys()].sort(), ['2025-08-01', '2025-08-04']);
+    } finally {
+      suffixPanel.dispose();
+    }
+  });
+
+  test('should group entries by day in the time zone of each file\'s workspace folder', () => {
+    // 20:00 UTC on August 2 is already August 3 in Auckland
+    const date = new Date(Date.UTC(2025, 7, 2, 20, 0));
+    const utcFile = createFile('utc.txt', [createEntry(1, date, 'Late call')]);
+    const nzFile: LogFile = { ...createFile('journal.txt', [createEntry(1, date, 'Morning run')]), uri: vscode.Uri.file('/nz/journal.txt') };
+    const zonedPanel = new CalendarPanel(fileIndex, new TimestampService(), new MockConfigurationService({ '/nz/': 'Pacific/Auckland' }));
+
+    try {
+      const entriesByDay = zonedPanel.groupEntriesByDay([utcFile, nzFile]);
+
+      assert.deepStrictEqual(entriesByDay.get('2025-08-02')!.map(({ entry }) => entry.title), ['Late call']);
+      assert.deepStrictEqual(entriesByDay.get('2025-08-03')!.map(({ entry }) => entry.title), ['Morning run']);
+    } finally {
+      zonedPanel.dispose();
+    }
+  });
+
+  test('should render the month grid starting on Monday and highlight days with entries', () => {
+    const html = panel.renderHtml('2025-08', panel.groupEntriesByDay(fileIndex.files), undefined, '2025-08-20', 'nonce');
+
+    // August 2025 starts on a Friday
+    assert.strictEqual(html.match(/class="blank"/g)?.length, 4);
+    assert.strictEqual(html.match(/data-day="2025-08-\d{2}"/g)?.length, 31);
+    assert.match(html, /class="day has-entries" data-day="2025-08-01" title="2 entries">/);
+    assert.match(html, /class="day has-entries" data-day="2025-08-04" title="1 entry">/);
+    assert.match(html, /class="day" data-day="2025-08-02" title="0 entries">/);
+    assert.match(html, /class="day today" data-day="2025-08-20"/);
+  });
+
+  test('should link to the previous, current and next month', () => {
+    const html = panel.renderHtml('2025-01', new Map(), undefined, '2025-08-20', 'nonce');
+
+    assert.match(html, /data-month="2024-12"/);
+    assert.match(html, /data-month="2025-08">Today/);
+    assert.match(html, /data-month="2025-02"/);
+  });
+
+  test('should list the selected day\'s entries with escaped titles', () => {
+    const html = panel.renderHtml('2025-08', panel.groupEntriesByDay(fileIndex.files), '2025-08-04', '2025-08-20', 'nonce');
+
+    assert.match(html, /class="day has-entries selected" data-day="2025-08-04"/);
+    assert.match(html, /<h2>2025-08-04<\/h2>/);
+    assert.match(html, /data-entry="0" data-entry-day="2025-08-04"/);
+    assert.ok(html.includes('work.txt'));
+    assert.ok(html.includes('Review &lt;release&gt; notes'));
+  });
+
+  test('should say when the selected day has no entries', () => {
+    const html = panel.renderHtml('2025-08', new Map(), '2025-08-02', '2025-08-20', 'nonce');
+
+    assert.ok(html.includes('No entries on this day.'));
+  });
+
+  test('should escape the selected day', () => {
+    const html = panel.renderHtml('2025-08', new Map(), '<img src=x>', '2025-08-20', 'nonce');
+
+    assert.ok(html.includes('<h2>&lt;img src=x&gt;</h2>'));
+    assert.ok(!html.includes('<img'));
+  });
+
+  test('should allow only scripts and styles with the nonce', () => {
+    const html = panel.renderHtml('2025-08', new Map(), undefined, '2025-08-20', 'abc123');
+
+    assert.ok(html.includes('script-src \'nonce-abc123\''));
+    assert.ok(html.includes('<script nonce="abc123">'));
+  });
+
+  test('should show the error instead of the calendar when the entries cannot be read', async () => {
+    const failingIndex = new MockLogFileIndex();
+    failingIndex.getFiles = async () => {
+      throw new Error('Disk <unavailable>');
+    };
+    const failingPanel = new CalendarPanel(failingIndex, new TimestampService(), ConfigurationService.getInstance());
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const html: string = failingPanel['panel'].webview.html;
+
+    assert.ok(html.includes('Disk &lt;unavailable&gt;'));
+    assert.ok(!html.includes('class="grid"'));
+    failingPanel.dispose();
+  });
+
+  test('OpenCalendarCommand should reuse the open calendar', () => {
+    const command = new OpenCalendarCommand(fileIndex, new TimestampService(), ConfigurationService.getInstance());
+    const registration = command.register();
+
+    const first = command.execute();
+    assert.strictEqual(command.execute(), first);
+
+    first.dispose();
+    const second = command.execute();
+    assert.notStrictEqual(second, first);
+
+    registration.dispose();
+  });
+});
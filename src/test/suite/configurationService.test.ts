@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ConfigurationService } from '../../services/configurationService';
+import { TimestampService } from '../../services/timestampService';
+import { LogLevel, TimeZoneSuffix, TriggerMode, CoalesceAction, InsertPosition } from '../../types';
+
+suite('ConfigurationService Test Suite', () => {
+  let configurationService: ConfigurationService;
+
+  setup(() => {
+    configurationService = ConfigurationService.getInstance();
+  });
+
+  teardown(async () => {
+    await vscode.workspace.getConfiguration('dotlog').update('logLevel', undefined, vscode.ConfigurationTarget.Global);
+    configurationService.dispose();
+  });
+
+  suite('getInstance', () => {
+    test('should return the same instance', () => {
+      assert.strictEqual(ConfigurationService.getInstance(), configurationService);
+    });
+
+    test('should return a new instance after dispose', () => {
+      configurationService.dispose();
+      const newInstance = ConfigurationService.getInstance();
+
+      assert.notStrictEqual(newInstance, configurationService);
+      configurationService = newInstance;
+    });
+  });
+
+  suite('getConfig', () => {
+    test('should return defaults when no settings are configured', () => {
+      const config = configurationService.getConfig();
+
+      assert.strictEqual(config.enabled, true);
+      assert.strictEqual(config.timestampFormat, TimestampService.DEFAULT_FORMAT);
+      assert.strictEqual(config.locale, '');
+      assert.strictEqual(config.timeZone, '');
+      assert.strictEqual(config.timeZoneSuffix, TimeZoneSuffix.NONE);
+      assert.strictEqual(config.supportedFileTypes, null);
+      assert.strictEqual(config.orgHeadingLevel, 1);
+      assert.deepStrictEqual(config.triggerMarkers, ['.LOG']);
+      assert.strictEqual(config.caseInsensitiveMarkers, false);
+      assert.strictEqual(config.trigger, TriggerMode.OPEN);
+      assert.strictEqual(config.focusIdleMinutes, 30);
+      assert.strictEqual(config.coalesceWindowMinutes, 0);
+      assert.strictEqual(config.coalesceAction, CoalesceAction.SKIP);
+      assert.strictEqual(config.insertPosition, InsertPosition.BOTTOM);
+      assert.strictEqual(config.performanceThresholdMs, 100);
+      assert.strictEqual(config.minimumStampIntervalSeconds, 0);
+      assert.strictEqual(config.journalFolder, 'journal');
+      assert.strictEqual(config.journalPathPattern, 'YYYY/MM/YYYY-MM-DD.md');
+      assert.strictEqual(config.journalTemplate, '');
+      assert.deepStrictEqual(config.entryTemplates, {});
+      assert.strictEqual(config.enableLogging, true);
+      assert.strictEqual(config.logLevel, LogLevel.INFO);
+    });
+
+    test('should resolve settings for a resource scope', () => {
+      const config = configurationService.getConfig(vscode.Uri.file('/tmp/notes.txt'));
+
+      assert.strictEqual(config.enabled, true);
+      assert.strictEqual(config.timestampFormat, TimestampService.DEFAULT_FORMAT);
+    });
+
+    test('should read updated settings', async () => {
+      await vscode.workspace.getConfiguration('dotlog').update('logLevel', 'debug', vscode.ConfigurationTarget.Global);
+
+      assert.strictEqual(configurationService.getConfig().logLevel, LogLevel.DEBUG);
+    });
+
+    test('should join entry templates written as lines and drop invalid ones', async () => {
+      const templates = { md: ['- Yesterday:', '- Today:'], txt: 'Notes', org: 42 };
+      await vscode.workspace.getConfiguration('dotlog').update('entryTemplates', templates, vscode.ConfigurationTarget.Global);
+
+      try {
+        assert.deepStrictEqual(configurationService.getConfig().entryTemplates, { md: '- Yesterday:\n- Today:', txt: 'Notes' });
+      } finally {
+        await vscode.workspace.getConfiguration('dotlog').update('entryTemplates', undefined, vscode.ConfigurationTarget.Global);
+      }
+    });
+
+    test('should keep file type IDs of handlers that are not built in and drop blank ones', async () => {
+      await vscode.workspace.getConfiguration('dotlog').update('supportedFileTypes', [' journal ', 'md', ''], vscode.ConfigurationTarget.Global);
+
+      try {
+        assert.deepStrictEqual(configurationService.getConfig().supportedFileTypes, ['journal', 'md']);
+      } finally {
+        await vscode.workspace.getConfiguration('dotlog').update('supportedFileTypes', undefined, vscode.ConfigurationTarget.Global);
+      }
+    });
+  });
+
+  suite('getTimestampOptions', () => {
+    test('should return timestamp settings for a resource', () => {
+      const options = configurationService.getTimestampOptions(vscode.Uri.file('/tmp/notes.txt'));
+
+      assert.deepStrictEqual(options, {
+        format: TimestampService.DEFAULT_FORMAT,
+        timeZone: '',
+        timeZoneSuffix: TimeZoneSuffix.NONE
+      });
+    });
+  });
+
+  suite('getMarkerOptions', () => {
+    test('should return the default marker', () => {
+      const options = configurationService.getMarkerOptions(vscode.Uri.file('/tmp/notes.txt'));
+
+      assert.deepStrictEqual(options, { markers: ['.LOG'], caseInsensitive: false });
+    });
+
+    test('should drop blank markers and fall back to the default', async () => {
+      await vscode.workspace.getConfiguration('dotlog').update('triggerMarkers', ['  ', ''], vscode.ConfigurationTarget.Global);
+
+      try {
+        assert.deepStrictEqual(configurationService.getMarkerOptions().markers, ['.LOG']);
+      } finally {
+        await vscode.workspace.getConfiguration('dotlog').update('triggerMarkers', undefined, vscode.ConfigurationTarget.Global);
+      }
+    });
+  });
+
+  suite('getDefaultConfig', () => {
+    test('should return a copy of the defaults', () => {
+      const defaults = ConfigurationService.getDefaultConfig();
+      defaults.triggerMarkers.pop();
+
+      assert.strictEqual(ConfigurationService.getDefaultConfig().triggerMarkers.length, 1);
+    });
+  });
+
+  suite('onDidChangeConfiguration', () => {
+    test('should fire when a dotlog setting changes', async () => {
+      const changed = new Promise<boolean>(resolve => {
+        const disposable = configurationService.onDidChangeConfiguration(event => {
+          disposable.dispose();
+          resolve(event.affectsConfiguration('dotlog.logLevel'));
+        });
+      });
+
+      await vscode.workspace.getConfiguration('dotlog').update('logLevel', 'warn', vscode.ConfigurationTarget.Global);
+
+      assert.strictEqual(await changed, true);
+    });
+  });
+});
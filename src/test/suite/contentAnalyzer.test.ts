@@ -1,7 +1,11 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { ContentAnalyzer } from '../../services/contentAnalyzer';
-import { SupportedFileType, ProcessingState, ErrorCode } from '../../types';
+import { DocumentEditor } from '../../services/documentEditor';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import { TextFileHandler } from '../../handlers/textFileHandler';
+import { ILogMarkerMatcher } from '../../types';
+import { ProcessingState, ErrorCode } from '../../types';
 
 suite('ContentAnalyzer Test Suite', () => {
   let contentAnalyzer: ContentAnalyzer;
@@ -66,6 +70,39 @@ suite('ContentAnalyzer Test Suite', () => {
     });
   });
 
+  suite('trigger markers', () => {
+    test('should delegate marker detection to the marker matcher', async () => {
+      const checked: string[] = [];
+      const markerMatcher: ILogMarkerMatcher = {
+        findMarker: () => ({ line: 0, marker: '#LOG' }),
+        findEntriesStart: () => 1,
+        hasMarker: document => {
+          checked.push(document.fileName);
+          return document.lineAt(0).text === '#LOG';
+        }
+      };
+      const analyzer = new ContentAnalyzer(markerMatcher);
+
+      assert.strictEqual(analyzer.shouldProcessDocument(createMockDocument('#LOG\nentry', 'test.txt', 'plaintext')), true);
+      assert.strictEqual(analyzer.isLogFile(createMockDocument('.LOG\nentry', 'test.txt', 'plaintext')), false);
+      assert.deepStrictEqual(checked, ['test.txt', 'test.txt']);
+    });
+
+    test('should accept .LOG after YAML front matter in markdown files', async () => {
+      const content = '---\ntitle: Journal\n---\n.LOG\n## Entry';
+
+      assert.strictEqual(contentAnalyzer.shouldProcessDocument(createMockDocument(content, 'journal.md', 'markdown')), true);
+      assert.strictEqual(contentAnalyzer.shouldProcessDocument(createMockDocument(content, 'journal.txt', 'plaintext')), false);
+    });
+
+    test('should accept a dotlog front matter entry in markdown files', async () => {
+      const mockDocument = createMockDocument('---\ntitle: Journal\ndotlog: true\n---\n# Journal', 'journal.md', 'markdown');
+
+      assert.strictEqual(contentAnalyzer.shouldProcessDocument(mockDocument), true);
+      assert.strictEqual(contentAnalyzer.isLogFile(mockDocument), true);
+    });
+  });
+
   suite('isLogFile', () => {
     test('should return true when document starts with .LOG', async () => {
       const mockDocument = createMockDocument('.LOG\nSome content', 'test.txt', 'plaintext');
@@ -96,19 +133,19 @@ suite('ContentAnalyzer Test Suite', () => {
     test('should return TEXT for .txt extension', async () => {
       const mockDocument = createMockDocument('content', 'test.txt', 'plaintext');
       const result = contentAnalyzer.getFileType(mockDocument);
-      assert.strictEqual(result, SupportedFileType.TEXT);
+      assert.strictEqual(result, 'txt');
     });
 
     test('should return LOG for .log extension', async () => {
       const mockDocument = createMockDocument('content', 'test.log', 'log');
       const result = contentAnalyzer.getFileType(mockDocument);
-      assert.strictEqual(result, SupportedFileType.LOG);
+      assert.strictEqual(result, 'log');
     });
 
     test('should return MARKDOWN for .md extension', async () => {
       const mockDocument = createMockDocument('content', 'test.md', 'markdown');
       const result = contentAnalyzer.getFileType(mockDocument);
-      assert.strictEqual(result, SupportedFileType.MARKDOWN);
+      assert.strictEqual(result, 'md');
     });
 
     test('should return null for unsupported extension', async () => {
@@ -120,19 +157,19 @@ suite('ContentAnalyzer Test Suite', () => {
     test('should handle case insensitive extensions', async () => {
       const mockDocument = createMockDocument('content', 'test.TXT', 'plaintext');
       const result = contentAnalyzer.getFileType(mockDocument);
-      assert.strictEqual(result, SupportedFileType.TEXT);
+      assert.strictEqual(result, 'txt');
     });
 
     test('should fallback to language ID when extension detection fails', async () => {
       const mockDocument = createMockDocument('content', 'untitled', 'plaintext');
       const result = contentAnalyzer.getFileType(mockDocument);
-      assert.strictEqual(result, SupportedFileType.TEXT);
+      assert.strictEqual(result, 'txt');
     });
 
     test('should handle files without extension', async () => {
       const mockDocument = createMockDocument('content', 'README', 'markdown');
       const result = contentAnalyzer.getFileType(mockDocument);
-      assert.strictEqual(result, SupportedFileType.MARKDOWN);
+      assert.strictEqual(result, 'md');
     });
   });
 
@@ -143,7 +180,7 @@ suite('ContentAnalyzer Test Suite', () => {
 
       assert.strictEqual(result.success, true);
       assert.ok(result.data);
-      assert.strictEqual(result.data.fileType, SupportedFileType.TEXT);
+      assert.strictEqual(result.data.fileType, 'txt');
       assert.strictEqual(result.data.shouldProcess, true);
       assert.strictEqual(result.data.processingState, ProcessingState.NOT_STARTED);
       assert.strictEqual(result.data.document, mockDocument);
@@ -155,7 +192,7 @@ suite('ContentAnalyzer Test Suite', () => {
 
       assert.strictEqual(result.success, true);
       assert.ok(result.data);
-      assert.strictEqual(result.data.fileType, SupportedFileType.TEXT);
+      assert.strictEqual(result.data.fileType, 'txt');
       assert.strictEqual(result.data.shouldProcess, false);
       assert.strictEqual(result.data.processingState, ProcessingState.SKIPPED);
     });
@@ -175,17 +212,27 @@ suite('ContentAnalyzer Test Suite', () => {
 
       assert.strictEqual(result.success, true);
       assert.ok(result.data);
-      assert.strictEqual(result.data.fileType, SupportedFileType.MARKDOWN);
+      assert.strictEqual(result.data.fileType, 'md');
       assert.strictEqual(result.data.shouldProcess, true);
     });
 
+    test('should read the directives on the trigger line', async () => {
+      const mockDocument = createMockDocument('.LOG tz=UTC template=standup\nContent', 'test.txt', 'plaintext');
+      const result = contentAnalyzer.analyzeContent(mockDocument);
+
+      assert.strictEqual(result.success, true);
+      assert.ok(result.data);
+      assert.strictEqual(result.data.shouldProcess, true);
+      assert.deepStrictEqual(result.data.directives, { timeZone: 'UTC', template: 'standup' });
+    });
+
     test('should handle log files correctly', async () => {
       const mockDocument = createMockDocument('.LOG\n2025-01-01 Log entry', 'test.log', 'log');
       const result = contentAnalyzer.analyzeContent(mockDocument);
 
       assert.strictEqual(result.success, true);
       assert.ok(result.data);
-      assert.strictEqual(result.data.fileType, SupportedFileType.LOG);
+      assert.strictEqual(result.data.fileType, 'log');
       assert.strictEqual(result.data.shouldProcess, true);
     });
   });
@@ -195,13 +242,40 @@ suite('ContentAnalyzer Test Suite', () => {
       const prefix = ContentAnalyzer.getLogPrefix();
       assert.strictEqual(prefix, '.LOG');
     });
+  });
 
+  suite('Handler registry', () => {
     test('getSupportedExtensions should return correct extensions', () => {
-      const extensions = ContentAnalyzer.getSupportedExtensions();
+      const extensions = contentAnalyzer.getSupportedExtensions();
       assert.ok(extensions.has('txt'));
       assert.ok(extensions.has('log'));
       assert.ok(extensions.has('md'));
-      assert.strictEqual(extensions.size, 3);
+      assert.ok(extensions.has('adoc'));
+      assert.ok(extensions.has('rst'));
+      assert.ok(extensions.has('org'));
+      assert.strictEqual(extensions.size, 7);
+    });
+
+    test('should only recognize file types with a registered handler', () => {
+      const registry = new HandlerRegistry([new TextFileHandler(new DocumentEditor())]);
+      const analyzer = new ContentAnalyzer(undefined, registry);
+
+      assert.strictEqual(analyzer.getFileType(createMockDocument('.LOG', 'test.txt', 'plaintext')), 'txt');
+      assert.strictEqual(analyzer.getFileType(createMockDocument('.LOG', 'test.md', 'markdown')), null);
+      assert.strictEqual(analyzer.shouldProcessDocument(createMockDocument('.LOG', 'test.md', 'markdown')), false);
+    });
+
+    test('should use the extensions declared by registered handlers', () => {
+      class NotesFileHandler extends TextFileHandler {
+        public getExtensions(): string[] {
+          return ['notes'];
+        }
+      }
+      const analyzer = new ContentAnalyzer(undefined, new HandlerRegistry([new NotesFileHandler(new DocumentEditor())]));
+
+      assert.strictEqual(analyzer.getFileType(createMockDocument('.LOG', 'journal.notes', 'unknown')), 'txt');
+      assert.strictEqual(analyzer.shouldProcessDocument(createMockDocument('.LOG', 'journal.notes', 'unknown')), true);
+      assert.deepStrictEqual(Array.from(analyzer.getSupportedExtensions()), ['notes']);
     });
   });
 
@@ -106,6 +106,29 @@ suite('DocumentEditor Tests', () => {
     });
   });
 
+  suite('insertTextAtLine', () => {
+    test('should insert text at the start of the line', async () => {
+      const result = await documentEditor.insertTextAtLine(testDocument, 1, '2025-01-08 14:30\n');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(testDocument.getText(), '.LOG\n2025-01-08 14:30\nExisting content');
+    });
+
+    test('should end the inserted text with a newline', async () => {
+      const result = await documentEditor.insertTextAtLine(testDocument, 1, '2025-01-08 14:30');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(testDocument.getText(), '.LOG\n2025-01-08 14:30\nExisting content');
+    });
+
+    test('should insert at the end for lines past the end of the document', async () => {
+      const result = await documentEditor.insertTextAtLine(testDocument, 5, '2025-01-08 14:30');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(testDocument.getText(), '.LOG\nExisting content\n2025-01-08 14:30\n');
+    });
+  });
+
   suite('positionCursorAtEnd', () => {
     test('should position cursor at end when active editor matches document', async () => {
       // Open the document in an editor
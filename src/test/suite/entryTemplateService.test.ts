@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { EntryTemplateService } from '../../services/entryTemplateService';
+import { ConfigurationService } from '../../services/configurationService';
+import { DocumentEditor } from '../../services/documentEditor';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import {
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions
+} from '../../types';
+
+// Mock configuration service for testing
+class MockConfigurationService implements IConfigurationService {
+  private config: ExtensionConfig = ConfigurationService.getDefaultConfig();
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  setConfig(config: Partial<ExtensionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return this.config;
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return {};
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    return { markers: this.config.triggerMarkers, caseInsensitive: this.config.caseInsensitiveMarkers };
+  }
+}
+
+suite('EntryTemplateService Test Suite', () => {
+  let configurationService: MockConfigurationService;
+  let service: EntryTemplateService;
+
+  function createDocument(fileName: string, languageId: string = 'markdown'): vscode.TextDocument {
+    return { uri: vscode.Uri.file(fileName), fileName, languageId } as vscode.TextDocument;
+  }
+
+  setup(() => {
+    configurationService = new MockConfigurationService();
+    service = new EntryTemplateService(configurationService, HandlerRegistry.createDefault(new DocumentEditor()));
+  });
+
+  suite('expandTemplate', () => {
+    const variables = { timestamp: '2026-10-19 09:00 AM', user: 'sam', workspaceFolder: 'notes', gitBranch: 'main' };
+
+    test('should replace the variables', () => {
+      const result = service.expandTemplate('${user} on ${gitBranch} in ${workspaceFolder} at ${timestamp}', variables);
+
+      assert.deepStrictEqual(result, { text: 'sam on main in notes at 2026-10-19 09:00 AM' });
+    });
+
+    test('should remove the cursor marker and return its offset', () => {
+      const result = service.expandTemplate('- Yesterday: ${cursor}\n- Today:\n- Blockers:', variables);
+
+      assert.strictEqual(result.text, '- Yesterday: \n- Today:\n- Blockers:');
+      assert.strictEqual(result.cursorOffset, 13);
+    });
+
+    test('should count expanded variables before the cursor', () => {
+      const result = service.expandTemplate('${user}: ${cursor}', variables);
+
+      assert.deepStrictEqual(result, { text: 'sam: ', cursorOffset: 5 });
+    });
+
+    test('should only use the first cursor marker', () => {
+      const result = service.expandTemplate('a${cursor}b${cursor}c', variables);
+
+      assert.deepStrictEqual(result, { text: 'abc', cursorOffset: 1 });
+    });
+
+    test('should leave unknown variables as they are', () => {
+      const result = service.expandTemplate('${date} ${user}', variables);
+
+      assert.strictEqual(result.text, '${date} sam');
+    });
+  });
+
+  suite('findTemplate', () => {
+    test('should find the template for the file type', () => {
+      configurationService.setConfig({ entryTemplates: { md: 'Markdown notes', txt: 'Text notes' } });
+
+      assert.strictEqual(service.findTemplate(createDocument('/work/log.md'), 'md'), 'Markdown notes');
+    });
+
+    test('should prefer a glob pattern matching the document', () => {
+      configurationService.setConfig({ entryTemplates: { md: 'Markdown notes', '**/standup/*.md': 'Standup' } });
+
+      assert.strictEqual(service.findTemplate(createDocument('/work/standup/2026.md'), 'md'), 'Standup');
+      assert.strictEqual(service.findTemplate(createDocument('/work/journal/2026.md'), 'md'), 'Markdown notes');
+    });
+
+    test('should prefer a template named on the trigger line', () => {
+      configurationService.setConfig({ entryTemplates: { md: 'Markdown notes', standup: 'Yesterday:\nToday:' } });
+
+      assert.strictEqual(service.findTemplate(createDocument('/work/log.md'), 'md', 'standup'), 'Yesterday:\nToday:');
+      assert.strictEqual(service.findTemplate(createDocument('/work/log.md'), 'md', 'retro'), 'Markdown notes');
+    });
+
+    test('should return undefined without a template', () => {
+      configurationService.setConfig({ entryTemplates: { txt: 'Text notes' } });
+
+      assert.strictEqual(service.findTemplate(createDocument('/work/log.md'), 'md'), undefined);
+    });
+  });
+
+  suite('resolveTemplate', () => {
+    test('should expand the template with the entry\'s timestamp', async () => {
+      configurationService.setConfig({ entryTemplates: { md: 'Written at ${timestamp}\n${cursor}' } });
+
+      const result = await service.resolveTemplate(createDocument('/work/log.md'), 'md', '09:00');
+
+      assert.deepStrictEqual(result, { text: 'Written at 09:00\n', cursorOffset: 17 });
+    });
+
+    test('should resolve to undefined without a template', async () => {
+      const result = await service.resolveTemplate(createDocument('/work/log.md'), 'md', '09:00');
+
+      assert.strictEqual(result, undefined);
+    });
+  });
+});
@@ -1,10 +1,24 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { FileMonitor } from '../../services/fileMonitor';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
 import {
   IContentAnalyzer,
   ITimestampService,
   IFileHandler,
+  IConfigurationService,
+  ExtensionConfig,
+  TriggerMode,
+  CoalesceAction,
+  InsertPosition,
+  CoalesceOptions,
+  EntryTemplate,
+  IEntryTemplateService,
+  TimestampOptions,
+  LogMarkerOptions,
+  MarkerSearchOptions,
+  TimeZoneSuffix,
+  LogLevel,
   SupportedFileType,
   ProcessingResult,
   ProcessingState,
@@ -15,7 +29,7 @@ import {
 // Mock implementations for testing
 class MockContentAnalyzer implements IContentAnalyzer {
   private shouldProcessResult = true;
-  private fileTypeResult: SupportedFileType | null = SupportedFileType.TEXT;
+  private fileTypeResult: SupportedFileType | null = 'txt';
   private analysisResult: OperationResult<DocumentContext> = { success: true };
 
   setShouldProcess(value: boolean): void {
@@ -53,7 +67,7 @@ class MockContentAnalyzer implements IContentAnalyzer {
 
     const context: DocumentContext = {
       document,
-      fileType: this.fileTypeResult || SupportedFileType.TEXT,
+      fileType: this.fileTypeResult || 'txt',
       timestamp: '',
       shouldProcess: this.shouldProcessResult,
       processingState: ProcessingState.NOT_STARTED
@@ -87,6 +101,14 @@ class MockTimestampService implements ITimestampService {
   getCurrentTimestamp(): OperationResult<string> {
     return this.timestampResult;
   }
+
+  parseTimestamp(text: string): Date | null {
+    return null;
+  }
+
+  createParser(): (text: string) => Date | null {
+    return () => null;
+  }
 }
 
 class MockFileHandler implements IFileHandler {
@@ -97,6 +119,10 @@ class MockFileHandler implements IFileHandler {
   };
 
   private fileType: SupportedFileType;
+  private timestampOptions: TimestampOptions = {};
+  public processedCount = 0;
+  public lastTemplate: EntryTemplate | undefined;
+  public lastInsertPosition: InsertPosition | undefined;
 
   constructor(fileType: SupportedFileType) {
     this.fileType = fileType;
@@ -106,11 +132,24 @@ class MockFileHandler implements IFileHandler {
     this.processResult = result;
   }
 
+  setTimestampOptions(options: TimestampOptions): void {
+    this.timestampOptions = options;
+  }
+
   canHandle(document: vscode.TextDocument): boolean {
     return true;
   }
 
-  async processDocument(document: vscode.TextDocument, timestamp: string): Promise<ProcessingResult> {
+  async processDocument(
+    document: vscode.TextDocument,
+    timestamp: string,
+    coalesce?: CoalesceOptions,
+    template?: EntryTemplate,
+    insertPosition?: InsertPosition
+  ): Promise<ProcessingResult> {
+    this.processedCount++;
+    this.lastTemplate = template;
+    this.lastInsertPosition = insertPosition;
     return this.processResult;
   }
 
@@ -118,9 +157,86 @@ class MockFileHandler implements IFileHandler {
     return this.fileType;
   }
 
+  getExtensions(): string[] {
+    return [this.fileType];
+  }
+
+  getLanguageIds(): string[] {
+    return [];
+  }
+
+  getMarkerSearchOptions(): MarkerSearchOptions {
+    return {};
+  }
+
+  getTimestampOptions(): TimestampOptions {
+    return this.timestampOptions;
+  }
+
   formatTimestamp(timestamp: string): string {
     return timestamp;
   }
+
+  readEntryTimestamp(document: vscode.TextDocument, line: number): string | null {
+    return null;
+  }
+
+  getEntryLineCount(): number {
+    return 1;
+  }
+}
+
+class MockConfigurationService implements IConfigurationService {
+  private config: ExtensionConfig = {
+    enabled: true,
+    timestampFormat: 'YYYY-MM-DD hh:mm A',
+    locale: '',
+    timeZone: '',
+    timeZoneSuffix: TimeZoneSuffix.NONE,
+    supportedFileTypes: ['txt', 'log', 'md'],
+    triggerMarkers: ['.LOG'],
+    caseInsensitiveMarkers: false,
+    orgHeadingLevel: 1,
+    trigger: TriggerMode.OPEN,
+    focusIdleMinutes: 30,
+    coalesceWindowMinutes: 0,
+    coalesceAction: CoalesceAction.SKIP,
+    insertPosition: InsertPosition.BOTTOM,
+    performanceThresholdMs: 100,
+    minimumStampIntervalSeconds: 0,
+    journalFolder: 'journal',
+    journalPathPattern: 'YYYY/MM/YYYY-MM-DD.md',
+    journalTemplate: '',
+    entryTemplates: {},
+    enableLogging: true,
+    logLevel: LogLevel.INFO
+  };
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  setConfig(config: Partial<ExtensionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return this.config;
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return {
+      format: this.config.timestampFormat,
+      timeZone: this.config.timeZone,
+      timeZoneSuffix: this.config.timeZoneSuffix
+    };
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    return {
+      markers: this.config.triggerMarkers,
+      caseInsensitive: this.config.caseInsensitiveMarkers
+    };
+  }
 }
 
 // Mock VS Code TextDocument
@@ -193,21 +309,24 @@ suite('FileMonitor Tests', () => {
   let fileMonitor: FileMonitor;
   let mockContentAnalyzer: MockContentAnalyzer;
   let mockTimestampService: MockTimestampService;
-  let mockHandlers: Map<SupportedFileType, IFileHandler>;
+  let mockHandlers: HandlerRegistry;
+  let mockConfigurationService: MockConfigurationService;
 
   setup(() => {
     mockContentAnalyzer = new MockContentAnalyzer();
+    mockConfigurationService = new MockConfigurationService();
     mockTimestampService = new MockTimestampService();
-    mockHandlers = new Map([
-      [SupportedFileType.TEXT, new MockFileHandler(SupportedFileType.TEXT)],
-      [SupportedFileType.LOG, new MockFileHandler(SupportedFileType.LOG)],
-      [SupportedFileType.MARKDOWN, new MockFileHandler(SupportedFileType.MARKDOWN)]
+    mockHandlers = new HandlerRegistry([
+      new MockFileHandler('txt'),
+      new MockFileHandler('log'),
+      new MockFileHandler('md')
     ]);
 
     fileMonitor = new FileMonitor(
       mockContentAnalyzer,
       mockTimestampService,
-      mockHandlers
+      mockHandlers,
+      mockConfigurationService
     );
   });
 
@@ -324,7 +443,7 @@ suite('FileMonitor Tests', () => {
 
     test('should handle handler processing failure', async () => {
       const document = new MockTextDocument('test.txt', ['.LOG']);
-      const handler = mockHandlers.get(SupportedFileType.TEXT) as MockFileHandler;
+      const handler = mockHandlers.getHandler('txt') as MockFileHandler;
       handler.setProcessResult({
         success: false,
         error: 'Handler failed',
@@ -338,6 +457,269 @@ suite('FileMonitor Tests', () => {
       assert.strictEqual(result.error, 'Handler failed');
       assert.strictEqual(result.processingState, ProcessingState.FAILED);
     });
+
+    test('should pass the entry template for the document to the handler', async () => {
+      const templateService: IEntryTemplateService = {
+        resolveTemplate: async (document, fileType, timestamp) => ({ text: `${fileType} entry at ${timestamp}`, cursorOffset: 0 })
+      };
+      const templateMonitor = new FileMonitor(
+        mockContentAnalyzer,
+        mockTimestampService,
+        mockHandlers,
+        mockConfigurationService,
+        templateService
+      );
+      const handler = mockHandlers.getHandler('txt') as MockFileHandler;
+
+      try {
+        await templateMonitor.onDocumentOpened(new MockTextDocument('test.txt', ['.LOG']));
+      } finally {
+        templateMonitor.dispose();
+      }
+
+      assert.deepStrictEqual(handler.lastTemplate, { text: 'txt entry at 2025-01-15 10:30', cursorOffset: 0 });
+    });
+
+    test('should pass the configured insert position to the handler', async () => {
+      mockConfigurationService.setConfig({ insertPosition: InsertPosition.TOP });
+      const handler = mockHandlers.getHandler('txt') as MockFileHandler;
+
+      await fileMonitor.onDocumentOpened(new MockTextDocument('test.txt', ['.LOG']));
+
+      assert.strictEqual(handler.lastInsertPosition, InsertPosition.TOP);
+    });
+
+    test('should prefer the insert position set on the trigger line', async () => {
+      const document = new MockTextDocument('test.txt', ['.LOG insert=bottom']);
+      mockConfigurationService.setConfig({ insertPosition: InsertPosition.TOP });
+      mockContentAnalyzer.setAnalysisResult({
+        success: true,
+        data: {
+          document,
+          fileType: 'txt',
+          timestamp: '',
+          shouldProcess: true,
+          processingState: ProcessingState.NOT_STARTED,
+          directives: { insertPosition: InsertPosition.BOTTOM }
+        }
+      });
+      const handler = mockHandlers.getHandler('txt') as MockFileHandler;
+
+      await fileMonitor.onDocumentOpened(document);
+
+      assert.strictEqual(handler.lastInsertPosition, InsertPosition.BOTTOM);
+    });
+  });
+
+  suite('Configuration', () => {
+    test('should skip processing when disabled by configuration', async () => {
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      mockConfigurationService.setConfig({ enabled: false });
+
+      const result = await fileMonitor.onDocumentOpened(document);
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.documentModified, false);
+      assert.strictEqual(result.processingState, ProcessingState.SKIPPED);
+    });
+
+    test('should skip file types not listed in supportedFileTypes', async () => {
+      const document = new MockTextDocument('test.md', ['.LOG']);
+      mockContentAnalyzer.setFileType('md');
+      mockConfigurationService.setConfig({ supportedFileTypes: ['txt'] });
+
+      const result = await fileMonitor.onDocumentOpened(document);
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.documentModified, false);
+      assert.strictEqual(result.processingState, ProcessingState.SKIPPED);
+    });
+
+    test('should process every registered file type when supportedFileTypes is not set', async () => {
+      const document = new MockTextDocument('today.journal', ['.LOG']);
+      const journalHandler = new MockFileHandler('journal');
+      mockHandlers.register(journalHandler);
+      mockContentAnalyzer.setFileType('journal');
+      mockConfigurationService.setConfig({ supportedFileTypes: null });
+
+      const result = await fileMonitor.onDocumentOpened(document);
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.processingState, ProcessingState.COMPLETED);
+      assert.strictEqual(journalHandler.processedCount, 1);
+    });
+
+    test('should pass configured timestamp options to the timestamp service', async () => {
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      let requestedOptions: TimestampOptions | undefined;
+      mockTimestampService.getCurrentTimestamp = (options?: TimestampOptions) => {
+        requestedOptions = options;
+        return { success: true, data: '10:30' };
+      };
+      mockConfigurationService.setConfig({
+        timestampFormat: 'HH:mm',
+        timeZone: 'Europe/Berlin',
+        timeZoneSuffix: TimeZoneSuffix.OFFSET
+      });
+
+      await fileMonitor.onDocumentOpened(document);
+
+      assert.deepStrictEqual(requestedOptions, {
+        format: 'HH:mm',
+        timeZone: 'Europe/Berlin',
+        timeZoneSuffix: TimeZoneSuffix.OFFSET
+      });
+    });
+
+    test('should let the file handler override the configured timestamp options', async () => {
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      let requestedOptions: TimestampOptions | undefined;
+      mockTimestampService.getCurrentTimestamp = (options?: TimestampOptions) => {
+        requestedOptions = options;
+        return { success: true, data: '<2025-01-15 Wed 10:30>' };
+      };
+      mockConfigurationService.setConfig({
+        timestampFormat: 'HH:mm',
+        timeZone: 'Europe/Berlin',
+        timeZoneSuffix: TimeZoneSuffix.OFFSET
+      });
+      const handler = mockHandlers.getHandler('txt') as MockFileHandler;
+      handler.setTimestampOptions({ format: '<YYYY-MM-DD ddd HH:mm>', timeZoneSuffix: TimeZoneSuffix.NONE });
+
+      await fileMonitor.onDocumentOpened(document);
+
+      assert.deepStrictEqual(requestedOptions, {
+        format: '<YYYY-MM-DD ddd HH:mm>',
+        timeZone: 'Europe/Berlin',
+        timeZoneSuffix: TimeZoneSuffix.NONE
+      });
+    });
+  });
+
+  suite('Trigger Modes', () => {
+    let handler: MockFileHandler;
+
+    setup(() => {
+      handler = mockHandlers.getHandler('txt') as MockFileHandler;
+    });
+
+    function createWillSaveEvent(
+      document: vscode.TextDocument,
+      reason: vscode.TextDocumentSaveReason = vscode.TextDocumentSaveReason.Manual
+    ): { event: vscode.TextDocumentWillSaveEvent; waits: Thenable<unknown>[] } {
+      const waits: Thenable<unknown>[] = [];
+      const event = {
+        document,
+        reason,
+        waitUntil: (thenable: Thenable<unknown>) => waits.push(thenable)
+      } as vscode.TextDocumentWillSaveEvent;
+      return { event, waits };
+    }
+
+    async function flushPromises(): Promise<void> {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    test('should stamp changed documents on manual save in save mode', async () => {
+      mockConfigurationService.setConfig({ trigger: TriggerMode.SAVE });
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      document.isDirty = true;
+      const { event, waits } = createWillSaveEvent(document);
+
+      fileMonitor['handleWillSaveDocument'](event);
+      await Promise.all(waits);
+
+      assert.strictEqual(waits.length, 1);
+      assert.strictEqual(handler.processedCount, 1);
+    });
+
+    test('should not stamp again on save without changes since the last stamp', async () => {
+      mockConfigurationService.setConfig({ trigger: TriggerMode.SAVE });
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      document.isDirty = true;
+
+      const first = createWillSaveEvent(document);
+      fileMonitor['handleWillSaveDocument'](first.event);
+      await Promise.all(first.waits);
+
+      const second = createWillSaveEvent(document);
+      fileMonitor['handleWillSaveDocument'](second.event);
+
+      assert.strictEqual(second.waits.length, 0);
+      assert.strictEqual(handler.processedCount, 1);
+    });
+
+    test('should not stamp again on save after a manual entry without further changes', async () => {
+      mockConfigurationService.setConfig({ trigger: TriggerMode.SAVE });
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      document.isDirty = true;
+
+      const result = await fileMonitor.addEntry(document);
+      const { event, waits } = createWillSaveEvent(document);
+      fileMonitor['handleWillSaveDocument'](event);
+
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(waits.length, 0);
+      assert.strictEqual(handler.processedCount, 1);
+    });
+
+    test('should ignore unchanged documents and auto save in save mode', () => {
+      mockConfigurationService.setConfig({ trigger: TriggerMode.SAVE });
+      const cleanDocument = new MockTextDocument('clean.txt', ['.LOG']);
+      const dirtyDocument = new MockTextDocument('dirty.txt', ['.LOG']);
+      dirtyDocument.isDirty = true;
+
+      const clean = createWillSaveEvent(cleanDocument);
+      const autoSave = createWillSaveEvent(dirtyDocument, vscode.TextDocumentSaveReason.AfterDelay);
+      fileMonitor['handleWillSaveDocument'](clean.event);
+      fileMonitor['handleWillSaveDocument'](autoSave.event);
+
+      assert.strictEqual(clean.waits.length, 0);
+      assert.strictEqual(autoSave.waits.length, 0);
+    });
+
+    test('should ignore saves in open mode', () => {
+      const document = new MockTextDocument('test.txt', ['.LOG']);
+      document.isDirty = true;
+      const { event, waits } = createWillSaveEvent(document);
+
+      fileMonitor['handleWillSaveDocument'](event);
+
+      assert.strictEqual(waits.length, 0);
+    });
+
+    test('should stamp on first focus and after the idle gap in focus mode', async () => {
+      mockConfigurationService.setConfig({ trigger: TriggerMode.FOCUS, focusIdleMinutes: 30 });
+      const logEditor = { document: new MockTextDocument('test.txt', ['.LOG']) } as unknown as vscode.TextEditor;
+      const otherEditor = { document: new MockTextDocument('other.txt', ['Notes']) } as unknown as vscode.TextEditor;
+      mockContentAnalyzer.getFileType = document => document.fileName.endsWith('test.txt') ? 'txt' : null;
+
+      fileMonitor['handleActiveEditorChanged'](logEditor);
+      await flushPromises();
+      assert.strictEqual(handler.processedCount, 1);
+
+      // Refocusing within the idle gap doesn't stamp
+      fileMonitor['handleActiveEditorChanged'](otherEditor);
+      fileMonitor['handleActiveEditorChanged'](logEditor);
+      await flushPromises();
+      assert.strictEqual(handler.processedCount, 1);
+
+      // Refocusing after the idle gap stamps again
+      mockConfigurationService.setConfig({ focusIdleMinutes: 0 });
+      fileMonitor['handleActiveEditorChanged'](otherEditor);
+      fileMonitor['handleActiveEditorChanged'](logEditor);
+      await flushPromises();
+      assert.strictEqual(handler.processedCount, 2);
+    });
+
+    test('should ignore focus changes in open mode', async () => {
+      const editor = { document: new MockTextDocument('test.txt', ['.LOG']) } as unknown as vscode.TextEditor;
+
+      fileMonitor['handleActiveEditorChanged'](editor);
+      await flushPromises();
+
+      assert.strictEqual(handler.processedCount, 0);
+    });
   });
 
   suite('isMonitoring', () => {
@@ -390,9 +772,9 @@ suite('FileMonitor Tests', () => {
 
     test('should process supported file types', async () => {
       const testCases = [
-        { fileName: 'test.txt', fileType: SupportedFileType.TEXT },
-        { fileName: 'test.log', fileType: SupportedFileType.LOG },
-        { fileName: 'test.md', fileType: SupportedFileType.MARKDOWN }
+        { fileName: 'test.txt', fileType: 'txt' },
+        { fileName: 'test.log', fileType: 'log' },
+        { fileName: 'test.md', fileType: 'md' }
       ];
 
       for (const testCase of testCases) {
@@ -439,7 +821,7 @@ suite('FileMonitor Tests', () => {
 
     test('should handle handler processing failures with recovery', async () => {
       const document = new MockTextDocument('test.txt', ['.LOG']);
-      const handler = mockHandlers.get(SupportedFileType.TEXT) as MockFileHandler;
+      const handler = mockHandlers.getHandler('txt') as MockFileHandler;
 
       // Make handler fail initially, then succeed
       let callCount = 0;
@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FoldEntriesCommand } from '../../commands/foldEntriesCommand';
+import { ContentAnalyzer } from '../../services/contentAnalyzer';
+import { TimestampService } from '../../services/timestampService';
+import { ConfigurationService } from '../../services/configurationService';
+import {
+  ILogEntryParser,
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions,
+  LogEntry,
+  ErrorCode,
+  TimeZoneSuffix
+} from '../../types';
+
+class MockLogEntryParser implements ILogEntryParser {
+  public entries: LogEntry[] = [];
+
+  parseEntries(document: vscode.TextDocument): LogEntry[] {
+    return this.entries;
+  }
+
+  parseEntryAt(document: vscode.TextDocument, line: number): LogEntry | null {
+    return this.entries.find(entry => entry.range.start.line === line) || null;
+  }
+}
+
+// Mock configuration service with the default settings in a fixed time zone
+class MockConfigurationService implements IConfigurationService {
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  constructor(private timeZone: string) {}
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return { ...ConfigurationService.getDefaultConfig(), timeZone: this.timeZone };
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return { timeZone: this.timeZone };
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    const config = this.getConfig(scope);
+    return { markers: config.triggerMarkers, caseInsensitive: config.caseInsensitiveMarkers };
+  }
+}
+
+suite('FoldEntriesCommand Test Suite', () => {
+  let entryParser: MockLogEntryParser;
+  let command: FoldEntriesCommand;
+
+  const document = createMockDocument('notes.txt', ['.LOG', 'Entry']);
+  const now = new Date(2025, 7, 10, 9, 0);
+
+  function createEntry(line: number, date: Date): LogEntry {
+    return {
+      timestamp: date.toISOString(),
+      date,
+      title: 'Notes',
+      text: 'Notes',
+      headerRange: new vscode.Range(line, 0, line, 10),
+      range: new vscode.Range(line, 0, line + 1, 5)
+    };
+  }
+
+  setup(() => {
+    entryParser = new MockLogEntryParser();
+    command = new FoldEntriesCommand(
+      entryParser,
+      new ContentAnalyzer(),
+      new TimestampService(),
+      ConfigurationService.getInstance()
+    );
+  });
+
+  suite('findEntriesOlderThan', () => {
+    const entries = [
+      createEntry(1, new Date(2025, 7, 3, 12, 0)),
+      createEntry(4, new Date(2025, 7, 9, 23, 0)),
+      createEntry(7, new Date(2025, 7, 10, 8, 0))
+    ];
+
+    test('should keep only today when days is 0', () => {
+      assert.deepStrictEqual(command.findEntriesOlderThan(document, entries, 0, now), entries.slice(0, 2));
+    });
+
+    test('should compare calendar days', () => {
+      assert.deepStrictEqual(command.findEntriesOlderThan(document, entries, 6, now), entries.slice(0, 1));
+      assert.deepStrictEqual(command.findEntriesOlderThan(document, entries, 7, now), []);
+    });
+
+    test('should compare calendar days with a time zone suffix configured', () => {
+      const timestampService = new TimestampService();
+      timestampService.setTimeZoneSuffix(TimeZoneSuffix.ABBREVIATION);
+      const suffixCommand = new FoldEntriesCommand(entryParser, new ContentAnalyzer(), timestampService, ConfigurationService.getInstance());
+
+      assert.deepStrictEqual(suffixCommand.findEntriesOlderThan(document, entries, 0, now), entries.slice(0, 2));
+      assert.deepStrictEqual(suffixCommand.findEntriesOlderThan(document, entries, 6, now), entries.slice(0, 1));
+    });
+
+    test('should count calendar days across a daylight saving change', () => {
+      const berlinCommand = new FoldEntriesCommand(
+        entryParser,
+        new ContentAnalyzer(),
+        new TimestampService(),
+        new MockConfigurationService('Europe/Berlin')
+      );
+      // Berlin moved its clocks forward on 2025-03-30, so that day had 23 hours
+      const justAfterMidnight = new Date(Date.UTC(2025, 2, 30, 22, 30));
+      const dstEntries = [
+        createEntry(1, new Date(Date.UTC(2025, 2, 29, 11, 0))),
+        createEntry(4, new Date(Date.UTC(2025, 2, 30, 10, 0)))
+      ];
+
+      assert.deepStrictEqual(berlinCommand.findEntriesOlderThan(document, dstEntries, 1, justAfterMidnight), dstEntries.slice(0, 1));
+    });
+  });
+
+  suite('execute', () => {
+    test('should fail without an active editor', async () => {
+      const result = await command.execute(0, undefined);
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.errorCode, ErrorCode.NO_ACTIVE_EDITOR);
+    });
+
+    test('should not fold documents without a trigger marker', async () => {
+      entryParser.entries = [createEntry(1, new Date(2025, 7, 3, 12, 0))];
+      const editor = { document: createMockDocument('notes.txt', ['Notes']) } as unknown as vscode.TextEditor;
+
+      const result = await command.execute(0, editor);
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.data, 0);
+    });
+  });
+});
+
+/**
+ * Helper function to create a mock VS Code TextDocument with the given lines
+ */
+function createMockDocument(fileName: string, lines: string[]): vscode.TextDocument {
+  return {
+    fileName,
+    languageId: 'plaintext',
+    uri: vscode.Uri.file(fileName),
+    lineCount: lines.length,
+    lineAt: (line: number) => ({ text: lines[line] })
+  } as unknown as vscode.TextDocument;
+}
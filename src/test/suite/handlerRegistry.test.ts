@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import { TextFileHandler } from '../../handlers/textFileHandler';
+import { LogFileHandler } from '../../handlers/logFileHandler';
+import { MarkdownFileHandler } from '../../handlers/markdownFileHandler';
+import { DocumentEditor } from '../../services/documentEditor';
+
+suite('HandlerRegistry Test Suite', () => {
+  let documentEditor: DocumentEditor;
+  let registry: HandlerRegistry;
+
+  setup(() => {
+    documentEditor = new DocumentEditor();
+    registry = HandlerRegistry.createDefault(documentEditor);
+  });
+
+  suite('createDefault', () => {
+    test('should register the built-in handlers', () => {
+      assert.deepStrictEqual(registry.getFileTypes(), ['txt', 'log', 'md', 'adoc', 'rst', 'org']);
+      assert.ok(registry.getHandler('txt') instanceof TextFileHandler);
+      assert.ok(registry.getHandler('log') instanceof LogFileHandler);
+      assert.ok(registry.getHandler('md') instanceof MarkdownFileHandler);
+    });
+
+    test('should collect the extensions of all handlers', () => {
+      assert.deepStrictEqual(Array.from(registry.getExtensions()), ['txt', 'log', 'md', 'adoc', 'asciidoc', 'rst', 'org']);
+    });
+  });
+
+  suite('register', () => {
+    test('should replace the handler for the same file type', () => {
+      const replacement = new TextFileHandler(documentEditor);
+      registry.register(replacement);
+
+      assert.strictEqual(registry.getHandler('txt'), replacement);
+      assert.strictEqual(registry.getHandlers().length, 6);
+    });
+
+    test('should register a handler for a new file type', () => {
+      registry.register(new JournalFileHandler(documentEditor));
+
+      assert.deepStrictEqual(registry.getFileTypes(), ['txt', 'log', 'md', 'adoc', 'rst', 'org', 'journal']);
+      assert.ok(registry.getHandlerForDocument(createMockDocument('today.journal', 'plaintext')) instanceof JournalFileHandler);
+    });
+
+    test('should remove handlers with unregister', () => {
+      assert.strictEqual(registry.unregister('log'), true);
+      assert.strictEqual(registry.unregister('log'), false);
+      assert.strictEqual(registry.getHandler('log'), undefined);
+    });
+  });
+
+  suite('getHandlerForDocument', () => {
+    test('should match by file extension', () => {
+      assert.strictEqual(
+        registry.getHandlerForDocument(createMockDocument('notes.log', 'plaintext')),
+        registry.getHandler('log')
+      );
+    });
+
+    test('should match extensions case-insensitively', () => {
+      assert.strictEqual(
+        registry.getHandlerForDocument(createMockDocument('README.MD', 'markdown')),
+        registry.getHandler('md')
+      );
+    });
+
+    test('should fall back to the language ID', () => {
+      assert.strictEqual(
+        registry.getHandlerForDocument(createMockDocument('Untitled-1', 'markdown')),
+        registry.getHandler('md')
+      );
+      assert.strictEqual(
+        registry.getHandlerForDocument(createMockDocument('notes.py', 'plaintext')),
+        registry.getHandler('txt')
+      );
+    });
+
+    test('should return undefined for unsupported documents', () => {
+      assert.strictEqual(registry.getHandlerForDocument(createMockDocument('script.js', 'javascript')), undefined);
+    });
+
+    test('should prefer the first registered handler for a shared extension', () => {
+      class NotesLogHandler extends LogFileHandler {
+        public getExtensions(): string[] {
+          return ['txt'];
+        }
+      }
+      registry.unregister('log');
+      registry.register(new NotesLogHandler(documentEditor));
+
+      assert.strictEqual(
+        registry.getHandlerForDocument(createMockDocument('notes.txt', 'plaintext')),
+        registry.getHandler('txt')
+      );
+    });
+  });
+
+  suite('getEnabledFileTypes', () => {
+    test('should enable every registered type when the setting is not set', () => {
+      registry.register(new JournalFileHandler(documentEditor));
+
+      assert.deepStrictEqual(registry.getEnabledFileTypes(null), registry.getFileTypes());
+    });
+
+    test('should keep the registered types listed in the setting', () => {
+      assert.deepStrictEqual(registry.getEnabledFileTypes(['org', 'journal', 'md']), ['md', 'org']);
+    });
+  });
+});
+
+// Handler for a file type that is not built in
+class JournalFileHandler extends TextFileHandler {
+  public getFileType(): string {
+    return 'journal';
+  }
+
+  public getExtensions(): string[] {
+    return ['journal'];
+  }
+}
+
+/**
+ * Helper function to create a minimal mock VS Code TextDocument
+ */
+function createMockDocument(fileName: string, languageId: string): vscode.TextDocument {
+  return {
+    fileName,
+    languageId,
+    uri: vscode.Uri.file(fileName)
+  } as unknown as vscode.TextDocument;
+}
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { InsertTimestampCommand } from '../../commands/insertTimestampCommand';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import { DocumentEditor } from '../../services/documentEditor';
+import { ConfigurationService } from '../../services/configurationService';
+import { ITimestampService, OperationResult, TimestampOptions, ErrorCode } from '../../types';
+
+class MockTimestampService implements ITimestampService {
+  generateTimestamp(): string {
+    return '2025-01-15 10:30';
+  }
+
+  formatTimestamp(date: Date, options?: TimestampOptions): string {
+    return '2025-01-15 10:30';
+  }
+
+  getCurrentTimestamp(options?: TimestampOptions): OperationResult<string> {
+    return { success: true, data: '2025-01-15 10:30' };
+  }
+
+  parseTimestamp(text: string, options?: TimestampOptions): Date | null {
+    return null;
+  }
+
+  createParser(options?: TimestampOptions): (text: string) => Date | null {
+    return () => null;
+  }
+}
+
+suite('InsertTimestampCommand Test Suite', () => {
+  let timestampService: MockTimestampService;
+  let command: InsertTimestampCommand;
+
+  setup(() => {
+    timestampService = new MockTimestampService();
+    command = new InsertTimestampCommand(
+      timestampService,
+      HandlerRegistry.createDefault(new DocumentEditor()),
+      ConfigurationService.getInstance()
+    );
+  });
+
+  teardown(async () => {
+    await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+  });
+
+  async function openEditor(content: string, language: string): Promise<vscode.TextEditor> {
+    const document = await vscode.workspace.openTextDocument({ content, language });
+    return vscode.window.showTextDocument(document);
+  }
+
+  test('should insert a plain timestamp at the cursor in text files', async () => {
+    const editor = await openEditor('Started at ', 'plaintext');
+    editor.selection = new vscode.Selection(0, 11, 0, 11);
+
+    const result = await command.execute(editor);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(editor.document.getText(), 'Started at 2025-01-15 10:30');
+  });
+
+  test('should insert a timestamp at every cursor', async () => {
+    const editor = await openEditor('a\nb', 'plaintext');
+    editor.selections = [new vscode.Selection(0, 1, 0, 1), new vscode.Selection(1, 1, 1, 1)];
+
+    const result = await command.execute(editor);
+
+    assert.strictEqual(result.data, 2);
+    assert.strictEqual(editor.document.getText(), 'a2025-01-15 10:30\nb2025-01-15 10:30');
+  });
+
+  test('should replace selected text', async () => {
+    const editor = await openEditor('Time: TODO', 'plaintext');
+    editor.selection = new vscode.Selection(0, 6, 0, 10);
+
+    await command.execute(editor);
+
+    assert.strictEqual(editor.document.getText(), 'Time: 2025-01-15 10:30');
+  });
+
+  test('should use the markdown handler formatting on an empty line', async () => {
+    const editor = await openEditor('# Journal\n', 'markdown');
+    editor.selection = new vscode.Selection(1, 0, 1, 0);
+
+    await command.execute(editor);
+
+    assert.strictEqual(editor.document.getText(), '# Journal\n## 2025-01-15 10:30');
+  });
+
+  test('should put block formatting on its own line', async () => {
+    const editor = await openEditor('Notes', 'markdown');
+    editor.selection = new vscode.Selection(0, 5, 0, 5);
+
+    await command.execute(editor);
+
+    assert.strictEqual(editor.document.getText(), 'Notes\n## 2025-01-15 10:30');
+  });
+
+  test('should fall back to a plain timestamp for unsupported file types', async () => {
+    const editor = await openEditor('// ', 'javascript');
+    editor.selection = new vscode.Selection(0, 3, 0, 3);
+
+    await command.execute(editor);
+
+    assert.strictEqual(editor.document.getText(), '// 2025-01-15 10:30');
+  });
+
+  test('should fail without an active editor', async () => {
+    const result = await new InsertTimestampCommand(
+      timestampService,
+      new HandlerRegistry(),
+      ConfigurationService.getInstance()
+    ).execute(undefined);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.errorCode, ErrorCode.NO_ACTIVE_EDITOR);
+  });
+});
@@ -6,7 +6,7 @@ import { promisify } from 'util';
 
 // Import extension functions
 import { activate, deactivate } from '../../extension';
-import { SupportedFileType, ProcessingState } from '../../types';
+import { ProcessingState } from '../../types';
 
 const writeFile = promisify(fs.writeFile);
 const unlink = promisify(fs.unlink);
@@ -94,6 +94,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -124,6 +125,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -154,6 +156,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -185,6 +188,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for potential processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -208,6 +212,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for potential processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -232,6 +237,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -258,6 +264,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -289,11 +296,13 @@ suite('Integration Tests', () => {
 
       // First open
       let document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
       await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
 
       // Second open
       document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Verify multiple timestamps
@@ -311,6 +320,35 @@ suite('Integration Tests', () => {
       await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
     });
 
+    test('should not add another timestamp when switching back to an open file', async () => {
+      const fileName = 'switch-back.txt';
+      const otherFileName = 'switch-other.txt';
+      const filePath = path.join(testFilesDir, fileName);
+      const otherFilePath = path.join(testFilesDir, otherFileName);
+
+      await writeFile(filePath, '.LOG\n');
+      await writeFile(otherFilePath, 'Other file\n');
+
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      await vscode.window.showTextDocument(document, { preview: false });
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      // Switch away and back, and re-read the document in the background
+      const otherDocument = await vscode.workspace.openTextDocument(vscode.Uri.file(otherFilePath));
+      await vscode.window.showTextDocument(otherDocument, { preview: false });
+      await vscode.window.showTextDocument(document, { preview: false });
+      await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      const timestampRegex = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2} (AM|PM)$/;
+      const timestampLines = document.getText().split('\n').filter(line => timestampRegex.test(line));
+      assert.strictEqual(timestampLines.length, 1, 'Should only stamp the file once while it stays open');
+
+      // Close both documents
+      await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+      await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+
     test('should handle case-sensitive .LOG check', async () => {
       const testCases = [
         { content: '.log\n', shouldProcess: false, description: 'lowercase .log' },
@@ -331,6 +369,7 @@ suite('Integration Tests', () => {
 
         // Open the document
         const document = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(document);
 
         // Wait for processing
         await new Promise(resolve => setTimeout(resolve, 200));
@@ -360,6 +399,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -394,6 +434,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 150));
@@ -440,6 +481,9 @@ suite('Integration Tests', () => {
 
       // Wait for all files to open
       const documents = await Promise.all(filePromises);
+      for (const document of documents) {
+        await vscode.window.showTextDocument(document, { preview: false });
+      }
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 300));
@@ -480,6 +524,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -516,6 +561,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait briefly
       await new Promise(resolve => setTimeout(resolve, 50));
@@ -555,6 +601,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing attempt
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -585,6 +632,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -607,6 +655,7 @@ suite('Integration Tests', () => {
 
       // Open the document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -638,6 +687,7 @@ suite('Integration Tests', () => {
 
         // Open the document
         const document = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(document);
 
         // Wait for processing
         await new Promise(resolve => setTimeout(resolve, 200));
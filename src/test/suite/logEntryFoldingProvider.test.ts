@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LogEntryFoldingProvider } from '../../providers/logEntryFoldingProvider';
+import { ContentAnalyzer } from '../../services/contentAnalyzer';
+import { ILogEntryParser, LogEntry } from '../../types';
+
+class MockLogEntryParser implements ILogEntryParser {
+  public entries: LogEntry[] = [
+    {
+      timestamp: '2025-01-15 10:30',
+      date: new Date(2025, 0, 15, 10, 30),
+      title: 'Standup notes',
+      text: 'Standup notes\nDone',
+      headerRange: new vscode.Range(1, 0, 1, 16),
+      range: new vscode.Range(1, 0, 3, 5)
+    },
+    {
+      timestamp: '2025-01-15 11:00',
+      date: new Date(2025, 0, 15, 11, 0),
+      title: '',
+      text: '',
+      headerRange: new vscode.Range(5, 0, 5, 16),
+      range: new vscode.Range(5, 0, 5, 16)
+    }
+  ];
+
+  parseEntries(document: vscode.TextDocument): LogEntry[] {
+    return this.entries;
+  }
+
+  parseEntryAt(document: vscode.TextDocument, line: number): LogEntry | null {
+    return this.entries.find(entry => entry.range.start.line === line) || null;
+  }
+}
+
+suite('LogEntryFoldingProvider Test Suite', () => {
+  let provider: LogEntryFoldingProvider;
+
+  setup(() => {
+    provider = new LogEntryFoldingProvider(new MockLogEntryParser(), new ContentAnalyzer());
+  });
+
+  test('should return a folding range for each entry with content', () => {
+    const ranges = provider.provideFoldingRanges(createMockDocument('notes.txt', ['.LOG', '2025-01-15 10:30']));
+
+    assert.deepStrictEqual(ranges, [new vscode.FoldingRange(1, 3)]);
+  });
+
+  test('should return no ranges for documents without a trigger marker', () => {
+    const ranges = provider.provideFoldingRanges(createMockDocument('notes.txt', ['Notes', '2025-01-15 10:30']));
+
+    assert.deepStrictEqual(ranges, []);
+  });
+});
+
+/**
+ * Helper function to create a mock VS Code TextDocument with the given lines
+ */
+function createMockDocument(fileName: string, lines: string[]): vscode.TextDocument {
+  return {
+    fileName,
+    languageId: 'plaintext',
+    uri: vscode.Uri.file(fileName),
+    lineCount: lines.length,
+    lineAt: (line: number) => ({ text: lines[line] })
+  } as unknown as vscode.TextDocument;
+}
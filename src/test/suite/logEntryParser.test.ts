@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LogEntryParser } from '../../services/logEntryParser';
+import { TimestampService } from '../../services/timestampService';
+import { DocumentEditor } from '../../services/documentEditor';
+import { ConfigurationService } from '../../services/configurationService';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import { TimestampPreset } from '../../types';
+
+suite('LogEntryParser Test Suite', () => {
+  const configurationService = ConfigurationService.getInstance();
+  const timestampService = new TimestampService();
+  const handlerRegistry = HandlerRegistry.createDefault(new DocumentEditor());
+  const parser = new LogEntryParser(handlerRegistry, timestampService, configurationService);
+
+  const first = new Date(2025, 7, 8, 14, 30);
+  const second = new Date(2025, 7, 9, 9, 15);
+
+  // Timestamps in the configured format, as the handlers write them
+  function stamp(date: Date): string {
+    return timestampService.formatTimestamp(date, configurationService.getTimestampOptions());
+  }
+
+  test('should parse entries in text files', () => {
+    const document = createMockDocument(
+      'notes.txt',
+      ['.LOG', '', stamp(first), 'First note', 'More', '', stamp(second), '', 'Second note']
+    );
+
+    const entries = parser.parseEntries(document);
+
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[0].timestamp, stamp(first));
+    assert.strictEqual(entries[0].date.getTime(), first.getTime());
+    assert.strictEqual(entries[0].title, 'First note');
+    assert.strictEqual(entries[0].text, 'First note\nMore');
+    assert.deepStrictEqual(entries[0].headerRange, new vscode.Range(2, 0, 2, stamp(first).length));
+    assert.deepStrictEqual(entries[0].range, new vscode.Range(2, 0, 4, 4));
+    assert.strictEqual(entries[1].date.getTime(), second.getTime());
+    assert.strictEqual(entries[1].title, 'Second note');
+    assert.deepStrictEqual(entries[1].range, new vscode.Range(6, 0, 8, 11));
+  });
+
+  test('should end empty entries at their timestamp', () => {
+    const document = createMockDocument('notes.log', ['.LOG', stamp(first), '', '']);
+
+    const entries = parser.parseEntries(document);
+
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].title, '');
+    assert.deepStrictEqual(entries[0].range, entries[0].headerRange);
+  });
+
+  test('should only treat handler headings as entries in markdown', () => {
+    const document = createMockDocument(
+      'notes.md',
+      ['.LOG', '# Journal', '', `## ${stamp(first)}`, 'Note', stamp(second), '## Topic']
+    );
+
+    const entries = parser.parseEntries(document);
+
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].timestamp, stamp(first));
+    assert.strictEqual(entries[0].title, 'Note');
+    assert.deepStrictEqual(entries[0].range, new vscode.Range(3, 0, 6, 8));
+  });
+
+  test('should read two-line reStructuredText titles', () => {
+    const title = [stamp(first), '-'.repeat(stamp(first).length)];
+    const document = createMockDocument('notes.rst', ['.. .LOG', '', ...title, '', 'Note']);
+
+    const entries = parser.parseEntries(document);
+
+    assert.strictEqual(entries.length, 1);
+    assert.deepStrictEqual(entries[0].headerRange, new vscode.Range(2, 0, 3, title[1].length));
+    assert.strictEqual(entries[0].title, 'Note');
+  });
+
+  test('should return no entries for unsupported documents', () => {
+    const document = createMockDocument('script.js', ['.LOG', stamp(first)]);
+
+    assert.deepStrictEqual(parser.parseEntries(document), []);
+  });
+
+  test('should read entries written in a preset other than the configured format', () => {
+    const timestamp = timestampService.formatTimestamp(first, { format: TimestampPreset.ISO8601 });
+    const document = createMockDocument('notes.md', ['.LOG', '', `## ${timestamp}`, 'Note']);
+
+    const entries = parser.parseEntries(document);
+
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].date.getTime(), first.getTime());
+  });
+
+  suite('parseEntryAt', () => {
+    const lines = ['.LOG', '', `## ${stamp(first)}`, 'First note', '', `## ${stamp(second)}`, 'Second note'];
+
+    test('should parse the entry starting at a line up to the next entry', () => {
+      const entry = parser.parseEntryAt(createMockDocument('notes.md', lines), 2);
+
+      assert.ok(entry);
+      assert.strictEqual(entry.timestamp, stamp(first));
+      assert.strictEqual(entry.date.getTime(), first.getTime());
+      assert.strictEqual(entry.title, 'First note');
+      assert.deepStrictEqual(entry.range, new vscode.Range(2, 0, 3, 10));
+    });
+
+    test('should parse the last entry up to the end of the document', () => {
+      const entry = parser.parseEntryAt(createMockDocument('notes.md', lines), 5);
+
+      assert.ok(entry);
+      assert.strictEqual(entry.date.getTime(), second.getTime());
+      assert.deepStrictEqual(entry.range, new vscode.Range(5, 0, 6, 11));
+    });
+
+    test('should return null for lines that do not start an entry', () => {
+      const document = createMockDocument('notes.md', lines);
+
+      assert.strictEqual(parser.parseEntryAt(document, 0), null);
+      assert.strictEqual(parser.parseEntryAt(document, 3), null);
+      assert.strictEqual(parser.parseEntryAt(createMockDocument('script.js', lines), 2), null);
+    });
+  });
+
+  suite('round trip', () => {
+    // Presets without seconds or a year lose nothing for this date
+    const date = new Date(new Date().getFullYear(), 1, 3, 14, 30);
+    const formats = [...Object.values(TimestampPreset), configurationService.getTimestampOptions().format];
+
+    for (const handler of handlerRegistry.getHandlers()) {
+      const fileName = `notes.${handler.getExtensions()[0]}`;
+
+      test(`should parse the timestamps written by ${fileName}`, () => {
+        for (const format of formats) {
+          const options = { ...configurationService.getTimestampOptions(), format, ...handler.getTimestampOptions() };
+          const text = handler.formatTimestamp(timestampService.formatTimestamp(date, options));
+          const lines = ['.LOG', ...text.split('\n'), 'Note'];
+
+          const entries = parser.parseEntries(createMockDocument(fileName, lines));
+
+          assert.strictEqual(entries.length, 1, `${fileName} ${format}`);
+          assert.strictEqual(entries[0].date.getTime(), date.getTime(), `${fileName} ${format}`);
+          assert.strictEqual(entries[0].title, 'Note', `${fileName} ${format}`);
+          assert.strictEqual(entries[0].range.end.line, lines.length - 1, `${fileName} ${format}`);
+        }
+      });
+    }
+  });
+});
+
+/**
+ * Helper function to create a mock VS Code TextDocument with the given lines
+ */
+function createMockDocument(fileName: string, lines: string[]): vscode.TextDocument {
+  return {
+    fileName,
+    languageId: '',
+    uri: vscode.Uri.file(fileName),
+    lineCount: lines.length,
+    lineAt: (line: number) => ({
+      text: lines[line],
+      lineNumber: line,
+      isEmptyOrWhitespace: lines[line].trim().length === 0
+    })
+  } as unknown as vscode.TextDocument;
+}
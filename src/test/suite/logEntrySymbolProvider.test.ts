@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LogEntrySymbolProvider } from '../../providers/logEntrySymbolProvider';
+import { ContentAnalyzer } from '../../services/contentAnalyzer';
+import { ILogEntryParser, LogEntry } from '../../types';
+
+class MockLogEntryParser implements ILogEntryParser {
+  public entries: LogEntry[] = [
+    {
+      timestamp: '2025-01-15 10:30',
+      date: new Date(2025, 0, 15, 10, 30),
+      title: 'Standup notes',
+      text: 'Standup notes\nDone',
+      headerRange: new vscode.Range(1, 0, 1, 16),
+      range: new vscode.Range(1, 0, 3, 5)
+    }
+  ];
+
+  parseEntries(document: vscode.TextDocument): LogEntry[] {
+    return this.entries;
+  }
+
+  parseEntryAt(document: vscode.TextDocument, line: number): LogEntry | null {
+    return this.entries.find(entry => entry.range.start.line === line) || null;
+  }
+}
+
+suite('LogEntrySymbolProvider Test Suite', () => {
+  let provider: LogEntrySymbolProvider;
+
+  setup(() => {
+    provider = new LogEntrySymbolProvider(new MockLogEntryParser(), new ContentAnalyzer());
+  });
+
+  test('should return a symbol for each entry', () => {
+    const symbols = provider.provideDocumentSymbols(createMockDocument('notes.txt', ['.LOG', '2025-01-15 10:30']));
+
+    assert.strictEqual(symbols.length, 1);
+    assert.strictEqual(symbols[0].name, '2025-01-15 10:30');
+    assert.strictEqual(symbols[0].detail, 'Standup notes');
+    assert.strictEqual(symbols[0].kind, vscode.SymbolKind.Event);
+    assert.deepStrictEqual(symbols[0].range, new vscode.Range(1, 0, 3, 5));
+    assert.deepStrictEqual(symbols[0].selectionRange, new vscode.Range(1, 0, 1, 16));
+  });
+
+  test('should return no symbols for documents without a trigger marker', () => {
+    const symbols = provider.provideDocumentSymbols(createMockDocument('notes.txt', ['Notes', '2025-01-15 10:30']));
+
+    assert.deepStrictEqual(symbols, []);
+  });
+});
+
+/**
+ * Helper function to create a mock VS Code TextDocument with the given lines
+ */
+function createMockDocument(fileName: string, lines: string[]): vscode.TextDocument {
+  return {
+    fileName,
+    languageId: 'plaintext',
+    uri: vscode.Uri.file(fileName),
+    lineCount: lines.length,
+    lineAt: (line: number) => ({ text: lines[line] })
+  } as unknown as vscode.TextDocument;
+}
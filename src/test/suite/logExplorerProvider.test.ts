@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LogExplorerProvider } from '../../providers/logExplorerProvider';
+import { ConfigurationService } from '../../services/configurationService';
+import { ILogFileIndex, ITimestampService, LogEntry, LogFile, OperationResult } from '../../types';
+
+class MockLogFileIndex implements ILogFileIndex {
+  private changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  public files: LogFile[] = [];
+  public refreshCount = 0;
+
+  async getFiles(): Promise<LogFile[]> {
+    return [...this.files];
+  }
+
+  async refresh(): Promise<void> {
+    this.refreshCount++;
+  }
+}
+
+class MockTimestampService implements ITimestampService {
+  generateTimestamp(): string {
+    return '2025-01-15 10:30';
+  }
+
+  formatTimestamp(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+
+  getCurrentTimestamp(): OperationResult<string> {
+    return { success: true, data: '2025-01-15 10:30' };
+  }
+
+  parseTimestamp(text: string): Date | null {
+    return null;
+  }
+
+  createParser(): (text: string) => Date | null {
+    return () => null;
+  }
+}
+
+suite('LogExplorerProvider Test Suite', () => {
+  let fileIndex: MockLogFileIndex;
+  let provider: LogExplorerProvider;
+
+  function createEntry(date: Date): LogEntry {
+    return {
+      timestamp: date.toISOString(),
+      date,
+      title: '',
+      text: '',
+      headerRange: new vscode.Range(1, 0, 1, 10),
+      range: new vscode.Range(1, 0, 1, 10)
+    };
+  }
+
+  function createFile(fileName: string, dates: Date[]): LogFile {
+    return {
+      uri: vscode.Uri.file(`/workspace/${fileName}`),
+      fileType: 'txt',
+      entries: dates.map(createEntry)
+    };
+  }
+
+  setup(() => {
+    fileIndex = new MockLogFileIndex();
+    provider = new LogExplorerProvider(fileIndex, new MockTimestampService(), ConfigurationService.getInstance());
+  });
+
+  test('should describe files by entry count and last entry date', () => {
+    const item = provider.getTreeItem(createFile('journal.txt', [
+      new Date(Date.UTC(2025, 7, 9, 12)),
+      new Date(Date.UTC(2025, 7, 8, 12))
+    ]));
+
+    assert.strictEqual(item.label, 'journal.txt');
+    assert.strictEqual(item.description, '2 entries · 2025-08-09');
+    assert.strictEqual(item.command?.command, 'vscode.open');
+  });
+
+  test('should describe files without entries', () => {
+    const item = provider.getTreeItem(createFile('empty.log', []));
+
+    assert.strictEqual(item.description, '0 entries');
+  });
+
+  test('should list the most recently written files first', async () => {
+    fileIndex.files = [
+      createFile('empty.log', []),
+      createFile('old.txt', [new Date(Date.UTC(2024, 0, 1))]),
+      createFile('new.txt', [new Date(Date.UTC(2025, 0, 1))])
+    ];
+
+    const children = await provider.getChildren();
+
+    assert.deepStrictEqual(children.map(file => file.uri.path), ['/workspace/new.txt', '/workspace/old.txt', '/workspace/empty.log']);
+    assert.deepStrictEqual(await provider.getChildren(children[0]), []);
+  });
+});
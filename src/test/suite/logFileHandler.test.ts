@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { LogFileHandler } from '../../handlers/logFileHandler';
-import { SupportedFileType, IDocumentEditor, OperationResult } from '../../types';
+import { IDocumentEditor, OperationResult } from '../../types';
 
 // Mock document editor for testing
 class MockDocumentEditor implements IDocumentEditor {
@@ -33,12 +33,34 @@ class MockDocumentEditor implements IDocumentEditor {
     };
   }
 
+  async insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
   async positionCursorAtEnd(document: vscode.TextDocument): Promise<OperationResult<void>> {
     return {
       success: this.positionSuccess,
       error: this.positionSuccess ? undefined : 'Mock cursor error'
     };
   }
+  async positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
 }
 
 // Mock text document for testing
@@ -167,8 +189,8 @@ suite('LogFileHandler Tests', () => {
   });
 
   suite('getFileType', () => {
-    test('should return SupportedFileType.LOG', () => {
-      assert.strictEqual(handler.getFileType(), SupportedFileType.LOG);
+    test('should return the log file type', () => {
+      assert.strictEqual(handler.getFileType(), 'log');
     });
   });
 
@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogFileIndex } from '../../services/logFileIndex';
+import { LogEntryParser } from '../../services/logEntryParser';
+import { ContentAnalyzer } from '../../services/contentAnalyzer';
+import { TimestampService } from '../../services/timestampService';
+import { DocumentEditor } from '../../services/documentEditor';
+import { ConfigurationService } from '../../services/configurationService';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import {
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions
+} from '../../types';
+
+// Mock configuration service with the default settings, which tests can override
+class MockConfigurationService implements IConfigurationService {
+  private config: ExtensionConfig = ConfigurationService.getDefaultConfig();
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  setConfig(config: Partial<ExtensionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return this.config;
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return ConfigurationService.getInstance().getTimestampOptions(scope);
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    return { markers: this.config.triggerMarkers, caseInsensitive: this.config.caseInsensitiveMarkers };
+  }
+}
+
+suite('LogFileIndex Test Suite', () => {
+  const configurationService = new MockConfigurationService();
+  const timestampService = new TimestampService();
+  const handlerRegistry = HandlerRegistry.createDefault(new DocumentEditor());
+  const fileIndex = new LogFileIndex(
+    new ContentAnalyzer(),
+    new LogEntryParser(handlerRegistry, timestampService, configurationService),
+    handlerRegistry,
+    configurationService
+  );
+
+  let testFilesDir: string;
+
+  // Timestamps in the configured format, as the handlers write them
+  function stamp(date: Date): string {
+    return timestampService.formatTimestamp(date, configurationService.getTimestampOptions());
+  }
+
+  async function writeTestFile(fileName: string, lines: string[]): Promise<vscode.Uri> {
+    const filePath = path.join(testFilesDir, fileName);
+    await fs.promises.writeFile(filePath, lines.join('\n'));
+    return vscode.Uri.file(filePath);
+  }
+
+  suiteSetup(async () => {
+    testFilesDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dotlog-index-tests-'));
+  });
+
+  teardown(() => {
+    configurationService.setConfig(ConfigurationService.getDefaultConfig());
+  });
+
+  suiteTeardown(async () => {
+    fileIndex.dispose();
+    await fs.promises.rm(testFilesDir, { recursive: true, force: true });
+  });
+
+  suite('readLogFile', () => {
+    test('should read the entries of .LOG files', async () => {
+      const uri = await writeTestFile('journal.txt', [
+        '.LOG', '', stamp(new Date(2025, 7, 8, 14, 30)), 'First', '', stamp(new Date(2025, 7, 9, 9, 0)), 'Second'
+      ]);
+
+      const file = await fileIndex.readLogFile(uri);
+
+      assert.ok(file);
+      assert.strictEqual(file.fileType, 'txt');
+      assert.strictEqual(file.entries.length, 2);
+      assert.strictEqual(file.entries[1].title, 'Second');
+    });
+
+    test('should read entries past the beginning of large files', async () => {
+      const lines = ['.LOG'];
+      for (let day = 1; day <= 28; day++) {
+        lines.push('', stamp(new Date(2025, 1, day, 9, 0)), 'x'.repeat(200));
+      }
+      const uri = await writeTestFile('large.log', lines);
+
+      const file = await fileIndex.readLogFile(uri);
+
+      assert.ok(file);
+      assert.strictEqual(file.entries.length, 28);
+    });
+
+    test('should find markers after Markdown front matter', async () => {
+      const uri = await writeTestFile('notes.md', ['---', 'dotlog: true', '---', '', `## ${stamp(new Date(2025, 7, 8, 14, 30))}`]);
+
+      const file = await fileIndex.readLogFile(uri);
+
+      assert.ok(file);
+      assert.strictEqual(file.entries.length, 1);
+    });
+
+    test('should return null for files without a trigger marker', async () => {
+      const uri = await writeTestFile('notes.txt', ['Notes', '.LOG']);
+
+      assert.strictEqual(await fileIndex.readLogFile(uri), null);
+    });
+
+    test('should return null for unsupported files', async () => {
+      const uri = await writeTestFile('script.js', ['.LOG']);
+
+      assert.strictEqual(await fileIndex.readLogFile(uri), null);
+    });
+
+    test('should return null while dotLOG is disabled', async () => {
+      const uri = await writeTestFile('disabled.txt', ['.LOG', '', stamp(new Date(2025, 7, 8, 14, 30)), 'Entry']);
+      configurationService.setConfig({ enabled: false });
+
+      assert.strictEqual(await fileIndex.readLogFile(uri), null);
+    });
+
+    test('should return null for file types missing from the supported file types', async () => {
+      const uri = await writeTestFile('excluded.txt', ['.LOG', '', stamp(new Date(2025, 7, 8, 14, 30)), 'Entry']);
+      configurationService.setConfig({ supportedFileTypes: ['md'] });
+
+      assert.strictEqual(await fileIndex.readLogFile(uri), null);
+    });
+  });
+});
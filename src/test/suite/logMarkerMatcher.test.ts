@@ -0,0 +1,276 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LogMarkerMatcher } from '../../services/logMarkerMatcher';
+import { ConfigurationService } from '../../services/configurationService';
+import { IConfigurationService, ExtensionConfig, TimestampOptions, LogMarkerOptions, InsertPosition } from '../../types';
+
+class MockConfigurationService implements IConfigurationService {
+  private markerOptions: LogMarkerOptions = { markers: ['.LOG'], caseInsensitive: false };
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  setMarkerOptions(options: LogMarkerOptions): void {
+    this.markerOptions = options;
+  }
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return ConfigurationService.getDefaultConfig();
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return {};
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    return this.markerOptions;
+  }
+}
+
+suite('LogMarkerMatcher Test Suite', () => {
+  let mockConfigurationService: MockConfigurationService;
+  let markerMatcher: LogMarkerMatcher;
+
+  setup(() => {
+    mockConfigurationService = new MockConfigurationService();
+    markerMatcher = new LogMarkerMatcher(mockConfigurationService);
+  });
+
+  suite('matchLine', () => {
+    test('should match the default .LOG marker exactly', () => {
+      const options = { markers: ['.LOG'], caseInsensitive: false };
+
+      assert.strictEqual(LogMarkerMatcher.matchLine('.LOG', options), '.LOG');
+      assert.strictEqual(LogMarkerMatcher.matchLine('  .LOG\t', options), '.LOG');
+      assert.strictEqual(LogMarkerMatcher.matchLine('.log', options), null);
+      assert.strictEqual(LogMarkerMatcher.matchLine('.LOG notes', options), null);
+    });
+
+    test('should match any configured marker', () => {
+      const options = { markers: ['.LOG', '#LOG', '<!-- .LOG -->'], caseInsensitive: false };
+
+      assert.strictEqual(LogMarkerMatcher.matchLine('#LOG', options), '#LOG');
+      assert.strictEqual(LogMarkerMatcher.matchLine('<!-- .LOG -->', options), '<!-- .LOG -->');
+      assert.strictEqual(LogMarkerMatcher.matchLine('<!-- .LOG', options), null);
+    });
+
+    test('should ignore case when configured', () => {
+      const options = { markers: ['.LOG'], caseInsensitive: true };
+
+      assert.strictEqual(LogMarkerMatcher.matchLine('.log', options), '.LOG');
+      assert.strictEqual(LogMarkerMatcher.matchLine('.Log', options), '.LOG');
+    });
+
+    test('should never match blank lines or blank markers', () => {
+      const options = { markers: ['', '   '], caseInsensitive: false };
+
+      assert.strictEqual(LogMarkerMatcher.matchLine('', options), null);
+      assert.strictEqual(LogMarkerMatcher.matchLine('   ', options), null);
+    });
+  });
+
+  suite('findMarker', () => {
+    test('should return the marker on the first line', () => {
+      const document = createMockDocument(['.LOG', 'entry'], 'notes.txt');
+
+      assert.deepStrictEqual(markerMatcher.findMarker(document), { line: 0, marker: '.LOG' });
+      assert.strictEqual(markerMatcher.hasMarker(document), true);
+    });
+
+    test('should ignore markers after the first line', () => {
+      const document = createMockDocument(['entry', '.LOG'], 'notes.txt');
+
+      assert.strictEqual(markerMatcher.findMarker(document), null);
+      assert.strictEqual(markerMatcher.hasMarker(document), false);
+    });
+
+    test('should use the configured markers for the document', () => {
+      mockConfigurationService.setMarkerOptions({ markers: ['<!-- .LOG -->'], caseInsensitive: false });
+
+      assert.strictEqual(markerMatcher.hasMarker(createMockDocument(['<!-- .LOG -->'], 'notes.md')), true);
+      assert.strictEqual(markerMatcher.hasMarker(createMockDocument(['.LOG'], 'notes.md')), false);
+    });
+
+    test('should return null for empty documents', () => {
+      assert.strictEqual(markerMatcher.findMarker(createMockDocument([], 'empty.txt')), null);
+    });
+
+    test('should return null when the document cannot be read', () => {
+      const document = createMockDocument(['.LOG'], 'broken.txt');
+      (document as any).lineAt = () => {
+        throw new Error('Document closed');
+      };
+
+      assert.strictEqual(markerMatcher.findMarker(document), null);
+    });
+  });
+
+  suite('header lines', () => {
+    const headers = { headerPattern: /^#\+\w+:/ };
+
+    test('should skip header lines before the marker', () => {
+      const document = createMockDocument(['#+TITLE: Journal', '#+STARTUP: overview', '', '.LOG'], 'journal.org');
+
+      assert.deepStrictEqual(markerMatcher.findMarker(document, headers), { line: 3, marker: '.LOG' });
+    });
+
+    test('should still match a marker on the first line', () => {
+      assert.deepStrictEqual(markerMatcher.findMarker(createMockDocument(['.LOG'], 'journal.org'), headers), {
+        line: 0,
+        marker: '.LOG'
+      });
+    });
+
+    test('should not skip blank lines before the first header line', () => {
+      const document = createMockDocument(['', '#+TITLE: Journal', '.LOG'], 'journal.org');
+
+      assert.strictEqual(markerMatcher.hasMarker(document, headers), false);
+    });
+
+    test('should not match when the document only has header lines', () => {
+      assert.strictEqual(markerMatcher.hasMarker(createMockDocument(['#+TITLE: Journal'], 'journal.org'), headers), false);
+    });
+  });
+
+  suite('front matter', () => {
+    const frontMatter = { frontMatter: true };
+
+    test('should match a marker on the first line after the front matter', () => {
+      const document = createMockDocument(['---', 'title: Journal', 'tags: [notes]', '---', '', '.LOG', 'entry'], 'journal.md');
+
+      assert.deepStrictEqual(markerMatcher.findMarker(document, frontMatter), { line: 5, marker: '.LOG' });
+    });
+
+    test('should match a dotlog entry inside the front matter', () => {
+      const document = createMockDocument(['---', 'title: Journal', 'dotlog: true  # stamp on open', '---', '# Journal'], 'journal.md');
+
+      assert.deepStrictEqual(markerMatcher.findMarker(document, frontMatter), {
+        line: 2,
+        marker: LogMarkerMatcher.FRONT_MATTER_KEY
+      });
+    });
+
+    test('should accept YAML 1.1 boolean spellings and the ... closing delimiter', () => {
+      const document = createMockDocument(['---', 'dotlog: yes', '...'], 'journal.md');
+
+      assert.strictEqual(markerMatcher.hasMarker(document, frontMatter), true);
+    });
+
+    test('should let dotlog: false opt out', () => {
+      const document = createMockDocument(['---', 'dotlog: false', '---', '.LOG'], 'journal.md');
+
+      assert.strictEqual(markerMatcher.hasMarker(document, frontMatter), false);
+    });
+
+    test('should not match content after the first line following the front matter', () => {
+      const document = createMockDocument(['---', 'title: Journal', '---', '# Journal', '.LOG'], 'journal.md');
+
+      assert.strictEqual(markerMatcher.hasMarker(document, frontMatter), false);
+    });
+
+    test('should ignore unclosed front matter', () => {
+      const document = createMockDocument(['---', 'dotlog: true', '.LOG'], 'journal.md');
+
+      assert.strictEqual(markerMatcher.hasMarker(document, frontMatter), false);
+    });
+
+    test('should only look at front matter when asked to', () => {
+      const document = createMockDocument(['---', 'dotlog: true', '---', '.LOG'], 'journal.txt');
+
+      assert.strictEqual(markerMatcher.hasMarker(document), false);
+    });
+
+    test('should still match a marker on the first line', () => {
+      const document = createMockDocument(['.LOG', '---', 'dotlog: false', '---'], 'journal.md');
+
+      assert.deepStrictEqual(markerMatcher.findMarker(document, frontMatter), { line: 0, marker: '.LOG' });
+    });
+  });
+
+  suite('findEntriesStart', () => {
+    test('should return the line after the marker', () => {
+      const document = createMockDocument(['#+TITLE: Journal', '.LOG', 'entry'], 'journal.org');
+
+      assert.strictEqual(markerMatcher.findEntriesStart(document, { headerPattern: /^#\+\w+:/ }), 2);
+    });
+
+    test('should return the line after front matter with a dotlog entry', () => {
+      const document = createMockDocument(['---', 'dotlog: true', 'title: Journal', '---', 'entry'], 'journal.md');
+
+      assert.strictEqual(markerMatcher.findEntriesStart(document, { frontMatter: true }), 4);
+    });
+
+    test('should return null without a marker', () => {
+      assert.strictEqual(markerMatcher.findEntriesStart(createMockDocument(['entry'], 'notes.txt')), null);
+    });
+  });
+
+  suite('directives', () => {
+    test('should match a marker followed by directives', () => {
+      const options = { markers: ['.LOG'], caseInsensitive: false };
+
+      assert.strictEqual(LogMarkerMatcher.matchLine('.LOG tz=UTC heading=3', options), '.LOG');
+      assert.strictEqual(LogMarkerMatcher.matchLine('// .LOG template=standup', options, ['//']), '.LOG');
+      assert.strictEqual(LogMarkerMatcher.matchLine('.LOGtz=UTC', options), null);
+      assert.strictEqual(LogMarkerMatcher.matchLine('.LOG tz=UTC notes', options), null);
+    });
+
+    test('should parse each directive', () => {
+      assert.deepStrictEqual(LogMarkerMatcher.parseDirectives(' format=iso tz=Europe/Berlin template=standup heading=3'), {
+        format: 'iso8601',
+        timeZone: 'Europe/Berlin',
+        template: 'standup',
+        headingLevel: 3
+      });
+    });
+
+    test('should accept quoted values with spaces', () => {
+      assert.deepStrictEqual(LogMarkerMatcher.parseDirectives(' format="DD.MM.YYYY HH:mm"'), { format: 'DD.MM.YYYY HH:mm' });
+    });
+
+    test('should ignore unknown keys and invalid heading levels or positions', () => {
+      assert.deepStrictEqual(LogMarkerMatcher.parseDirectives(' color=blue heading=9 insert=middle'), {});
+    });
+
+    test('should parse the insert position', () => {
+      assert.deepStrictEqual(LogMarkerMatcher.parseDirectives(' insert=top'), { insertPosition: InsertPosition.TOP });
+    });
+
+    test('should reject text that is not a list of directives', () => {
+      assert.strictEqual(LogMarkerMatcher.parseDirectives(' daily notes'), null);
+      assert.strictEqual(LogMarkerMatcher.parseDirectives(' format="unclosed'), null);
+    });
+
+    test('should return the directives with the marker', () => {
+      const document = createMockDocument(['---', 'title: Journal', '---', '.LOG heading=3', 'entry'], 'journal.md');
+
+      assert.deepStrictEqual(markerMatcher.findMarker(document, { frontMatter: true }), {
+        line: 3,
+        marker: '.LOG',
+        directives: { headingLevel: 3 }
+      });
+    });
+
+    test('should keep the case of directive values for case-insensitive markers', () => {
+      mockConfigurationService.setMarkerOptions({ markers: ['.LOG'], caseInsensitive: true });
+
+      assert.deepStrictEqual(markerMatcher.findMarker(createMockDocument(['.log format=YYYY-MM-DD'], 'notes.txt')), {
+        line: 0,
+        marker: '.LOG',
+        directives: { format: 'YYYY-MM-DD' }
+      });
+    });
+  });
+});
+
+/**
+ * Helper function to create a minimal mock VS Code TextDocument
+ */
+function createMockDocument(lines: string[], fileName: string): vscode.TextDocument {
+  return {
+    fileName,
+    uri: vscode.Uri.file(fileName),
+    lineCount: lines.length,
+    lineAt: (line: number) => ({ text: lines[line] })
+  } as unknown as vscode.TextDocument;
+}
@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LogTimelineProvider } from '../../providers/logTimelineProvider';
+import { TimestampService } from '../../services/timestampService';
+import { ConfigurationService } from '../../services/configurationService';
+import {
+  ILogFileIndex,
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions,
+  LogEntry,
+  LogFile,
+  TimeZoneSuffix
+} from '../../types';
+
+class MockLogFileIndex implements ILogFileIndex {
+  private changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  public files: LogFile[] = [];
+
+  async getFiles(): Promise<LogFile[]> {
+    return this.files;
+  }
+
+  async refresh(): Promise<void> {
+    this.changeEmitter.fire();
+  }
+}
+
+// Mock configuration service whose time zone depends on the workspace folder of the scope
+class MockConfigurationService implements IConfigurationService {
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  constructor(private folderTimeZones: Record<string, string>) {}
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return { ...ConfigurationService.getDefaultConfig(), ...this.getTimestampOptions(scope) };
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    // The provider scopes by file URI
+    const path = (scope as vscode.Uri | undefined)?.path ?? '';
+    const folder = Object.keys(this.folderTimeZones).find(candidate => path.startsWith(candidate));
+    return { timeZone: folder ? this.folderTimeZones[folder] : 'UTC' };
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    const config = this.getConfig(scope);
+    return { markers: config.triggerMarkers, caseInsensitive: config.caseInsensitiveMarkers };
+  }
+}
+
+suite('LogTimelineProvider Test Suite', () => {
+  let fileIndex: MockLogFileIndex;
+  let provider: LogTimelineProvider;
+
+  function createEntry(line: number, date: Date, text: string): LogEntry {
+    return {
+      timestamp: date.toISOString(),
+      date,
+      title: text.split('\n')[0],
+      text,
+      headerRange: new vscode.Range(line, 0, line, 10),
+      range: new vscode.Range(line, 0, line + 1, 10)
+    };
+  }
+
+  function createFile(fileName: string, entries: LogEntry[]): LogFile {
+    return {
+      uri: vscode.Uri.file(`/workspace/${fileName}`),
+      fileType: 'txt',
+      entries
+    };
+  }
+
+  const work = createFile('work.txt', [
+    createEntry(1, new Date(2025, 7, 1, 9, 0), 'Planning'),
+    createEntry(4, new Date(2025, 7, 3, 9, 0), 'Release notes')
+  ]);
+  const home = createFile('home.log', [
+    createEntry(1, new Date(2025, 7, 2, 20, 0), 'Groceries'),
+    createEntry(3, new Date(2025, 7, 4, 20, 0), 'Plan the trip\nBook hotel')
+  ]);
+
+  setup(() => {
+    fileIndex = new MockLogFileIndex();
+    fileIndex.files = [work, home];
+    provider = new LogTimelineProvider(fileIndex, new TimestampService(), ConfigurationService.getInstance());
+  });
+
+  function titles(entries: { entry: LogEntry }[]): string[] {
+    return entries.map(({ entry }) => entry.title);
+  }
+
+  test('should interleave the entries of all files, newest first', async () => {
+    const entries = await provider.getChildren();
+
+    assert.deepStrictEqual(titles(entries), ['Plan the trip', 'Release notes', 'Groceries', 'Planning']);
+    assert.strictEqual(entries[0].file, home);
+  });
+
+  test('should filter by date range', () => {
+    provider.setFilter({ fromDay: '2025-08-02', toDay: '2025-08-03' });
+
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Release notes', 'Groceries']);
+  });
+
+  test('should filter by date range with a time zone suffix configured', () => {
+    const timestampService = new TimestampService();
+    timestampService.setTimeZoneSuffix(TimeZoneSuffix.OFFSET);
+    provider = new LogTimelineProvider(fileIndex, timestampService, ConfigurationService.getInstance());
+
+    provider.setFilter({ fromDay: '2025-08-02', toDay: '2025-08-03' });
+
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Release notes', 'Groceries']);
+  });
+
+  test('should filter by day in the time zone of each file\'s workspace folder', () => {
+    // 20:00 UTC on August 2 is already August 3 in Auckland
+    const utcFile = createFile('utc.txt', [createEntry(1, new Date(Date.UTC(2025, 7, 2, 20, 0)), 'Late call')]);
+    const nzFile: LogFile = {
+      uri: vscode.Uri.file('/nz/journal.txt'),
+      fileType: 'txt',
+      entries: [createEntry(1, new Date(Date.UTC(2025, 7, 2, 20, 0)), 'Morning run')]
+    };
+    fileIndex.files = [utcFile, nzFile];
+    provider = new LogTimelineProvider(fileIndex, new TimestampService(), new MockConfigurationService({ '/nz/': 'Pacific/Auckland' }));
+
+    provider.setFilter({ fromDay: '2025-08-03', toDay: '2025-08-03' });
+
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Morning run']);
+  });
+
+  test('should filter by open-ended date ranges', () => {
+    provider.setFilter({ fromDay: '2025-08-03' });
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Plan the trip', 'Release notes']);
+
+    provider.setFilter({ toDay: '2025-08-01' });
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Planning']);
+  });
+
+  test('should filter by file', () => {
+    provider.setFilter({ fileUri: vscode.Uri.file('/workspace/work.txt') });
+
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Release notes', 'Planning']);
+  });
+
+  test('should filter by text in the whole entry, ignoring case', () => {
+    provider.setFilter({ text: 'HOTEL' });
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Plan the trip']);
+
+    provider.setFilter({ text: 'plan' });
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Plan the trip', 'Planning']);
+  });
+
+  test('should combine filters', () => {
+    provider.setFilter({ fromDay: '2025-08-02', fileUri: vscode.Uri.file('/workspace/home.log'), text: 'plan' });
+
+    assert.deepStrictEqual(titles(provider.filterEntries(fileIndex.files)), ['Plan the trip']);
+    assert.deepStrictEqual(provider.getFilter().fromDay, '2025-08-02');
+  });
+
+  test('should open the file at the entry', () => {
+    const item = provider.getTreeItem({ file: work, entry: work.entries[1] });
+
+    assert.strictEqual(item.label, 'Release notes');
+    assert.strictEqual(item.command?.command, 'vscode.open');
+    assert.strictEqual(item.command?.arguments?.[0], work.uri);
+    assert.deepStrictEqual(item.command?.arguments?.[1], { selection: new vscode.Range(4, 0, 4, 0) });
+  });
+});
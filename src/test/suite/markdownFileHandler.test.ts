@@ -1,13 +1,25 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { MarkdownFileHandler } from '../../handlers/markdownFileHandler';
-import { SupportedFileType, IDocumentEditor, OperationResult } from '../../types';
+import {
+  IDocumentEditor,
+  OperationResult,
+  ProcessingState,
+  CoalesceAction,
+  CoalesceOptions,
+  InsertPosition
+} from '../../types';
 
 // Mock document editor for testing
 class MockDocumentEditor implements IDocumentEditor {
   private canModify: boolean = true;
   private insertSuccess: boolean = true;
   private positionSuccess: boolean = true;
+  public insertedText: string | undefined;
+  public insertedLine: number | undefined;
+  public replacedRange: vscode.Range | undefined;
+  public replacedText: string | undefined;
+  public cursorPosition: vscode.Position | undefined;
 
   setCanModify(canModify: boolean): void {
     this.canModify = canModify;
@@ -26,6 +38,27 @@ class MockDocumentEditor implements IDocumentEditor {
   }
 
   async insertTextAtEnd(document: vscode.TextDocument, text: string): Promise<OperationResult<boolean>> {
+    this.insertedText = text;
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>> {
+    this.insertedLine = line;
+    this.insertedText = text;
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>> {
+    this.replacedRange = range;
+    this.replacedText = text;
     return {
       success: this.insertSuccess,
       data: this.insertSuccess,
@@ -39,6 +72,13 @@ class MockDocumentEditor implements IDocumentEditor {
       error: this.positionSuccess ? undefined : 'Mock cursor error'
     };
   }
+  async positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>> {
+    this.cursorPosition = position;
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
 }
 
 // Mock text document for testing
@@ -165,6 +205,16 @@ suite('MarkdownFileHandler Tests', () => {
       assert.strictEqual(handler.canHandle(document), true);
     });
 
+    test('should return true for .md file with .LOG after YAML front matter', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['---', 'title: Journal', '---', '.LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return true for .md file with dotlog: true in YAML front matter', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['---', 'dotlog: true', '---', '# Journal']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
     test('should handle .markdown extension', () => {
       const document = new MockTextDocument('test.markdown', 'markdown', ['.LOG']);
       assert.strictEqual(handler.canHandle(document), false); // Only .md is supported
@@ -172,8 +222,8 @@ suite('MarkdownFileHandler Tests', () => {
   });
 
   suite('getFileType', () => {
-    test('should return SupportedFileType.MARKDOWN', () => {
-      assert.strictEqual(handler.getFileType(), SupportedFileType.MARKDOWN);
+    test('should return the md file type', () => {
+      assert.strictEqual(handler.getFileType(), 'md');
     });
   });
 
@@ -287,4 +337,230 @@ suite('MarkdownFileHandler Tests', () => {
       assert.ok(formattedTimestamp.endsWith('\n'));
     });
   });
-});
\ No newline at end of file
+
+  suite('processDocument with a template', () => {
+    test('should write the template beneath the heading', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG']);
+
+      await handler.processDocument(document, '2025-08-08 14:30', undefined, { text: '- Yesterday:\n- Today:' });
+
+      assert.strictEqual(mockEditor.insertedText, '\n## 2025-08-08 14:30\n- Yesterday:\n- Today:\n');
+      assert.strictEqual(mockEditor.cursorPosition, undefined);
+    });
+
+    test('should place the cursor at the template\'s cursor marker', async () => {
+      // The document as it reads after the entry was appended
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', '- Yesterday: ', '- Today:', '']);
+
+      await handler.processDocument(document, '2025-08-08 14:30', undefined, { text: '- Yesterday: \n- Today:', cursorOffset: 13 });
+
+      assert.strictEqual(mockEditor.cursorPosition?.line, 3);
+      assert.strictEqual(mockEditor.cursorPosition?.character, 13);
+    });
+
+    test('should replace a recent empty entry with the heading and template', async () => {
+      const timestamp = '2025-08-08 14:30';
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', `## ${timestamp}`, '']);
+      const coalesce: CoalesceOptions = {
+        windowMinutes: 15,
+        action: CoalesceAction.REPLACE,
+        parseTimestamp: () => new Date()
+      };
+
+      await handler.processDocument(document, timestamp, coalesce, { text: 'Notes' });
+
+      assert.strictEqual(mockEditor.replacedText, `## ${timestamp}\nNotes\n`);
+    });
+  });
+
+  suite('heading directive', () => {
+    test('should use the heading level set on the trigger line', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG heading=3']);
+
+      assert.strictEqual(handler.formatTimestamp('2025-08-08 14:30', document), '\n### 2025-08-08 14:30\n');
+    });
+
+    test('should read entries at the heading level set on the trigger line', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG heading=3', '', '### 2025-08-08 14:30', '## 2025-08-08 15:00']);
+
+      assert.strictEqual(handler.readEntryTimestamp(document, 2), '2025-08-08 14:30');
+      assert.strictEqual(handler.readEntryTimestamp(document, 3), null);
+    });
+  });
+
+  suite('timestamp directives', () => {
+    test('should override the format and time zone from the trigger line', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG format=iso tz=Europe/Berlin']);
+
+      assert.deepStrictEqual(handler.getTimestampOptions(document), { format: 'iso8601', timeZone: 'Europe/Berlin' });
+    });
+
+    test('should ignore an invalid time zone so the configured one applies', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG tz=Mars/Olympus']);
+
+      assert.deepStrictEqual(handler.getTimestampOptions(document), {});
+    });
+
+    test('should ignore an invalid format so the configured one applies', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG format=bogus']);
+
+      assert.deepStrictEqual(handler.getTimestampOptions(document), {});
+    });
+  });
+
+  suite('readEntryTimestamp', () => {
+    test('should read the timestamp of an entry heading', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', 'Notes']);
+
+      assert.strictEqual(handler.readEntryTimestamp(document, 2), '2025-08-08 14:30');
+    });
+
+    test('should ignore other lines and heading levels', () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '# 2025-08-08 14:30', 'Notes']);
+
+      assert.strictEqual(handler.readEntryTimestamp(document, 1), null);
+      assert.strictEqual(handler.readEntryTimestamp(document, 2), null);
+      assert.strictEqual(handler.readEntryTimestamp(document, 3), null);
+    });
+  });
+
+  suite('coalescing', () => {
+    // The previous entry was written five minutes ago
+    function createCoalesceOptions(action: CoalesceAction, windowMinutes: number = 15): CoalesceOptions {
+      return {
+        windowMinutes,
+        action,
+        parseTimestamp: text => text === '2025-08-08 14:30' ? new Date(Date.now() - 5 * 60000) : null
+      };
+    }
+
+    test('should skip the timestamp when the last entry is recent and empty', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', '']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.SKIP));
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.documentModified, false);
+      assert.strictEqual(result.processingState, ProcessingState.SKIPPED);
+      assert.strictEqual(mockEditor.insertedText, undefined);
+    });
+
+    test('should replace a recent empty entry', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', '']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.REPLACE));
+
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(mockEditor.replacedText, '## 2025-08-08 14:35\n');
+      assert.deepStrictEqual(mockEditor.replacedRange, new vscode.Range(2, 0, 3, 0));
+      assert.strictEqual(mockEditor.insertedText, undefined);
+    });
+
+    test('should add a timestamp when the last entry has content', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', 'Notes', '']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.SKIP));
+
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(mockEditor.insertedText, '\n## 2025-08-08 14:35\n');
+    });
+
+    test('should add a timestamp when the last entry is older than the window', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.SKIP, 5));
+
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(mockEditor.insertedText, '\n## 2025-08-08 14:35\n');
+    });
+
+    test('should only treat headings in the handler format as entries', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '### 2025-08-08 14:30']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.SKIP));
+
+      assert.strictEqual(result.documentModified, true);
+    });
+  });
+
+  suite('top insertion', () => {
+    function createCoalesceOptions(action: CoalesceAction): CoalesceOptions {
+      return {
+        windowMinutes: 15,
+        action,
+        parseTimestamp: text => text === '2025-08-08 14:30' ? new Date(Date.now() - 5 * 60000) : null
+      };
+    }
+
+    test('should insert the entry below the marker and place the cursor under it', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-07 09:00', 'Notes']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', undefined, undefined, InsertPosition.TOP);
+
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(mockEditor.insertedLine, 1);
+      assert.strictEqual(mockEditor.insertedText, '\n## 2025-08-08 14:35\n\n');
+      assert.deepStrictEqual(mockEditor.cursorPosition, new vscode.Position(3, 0));
+    });
+
+    test('should insert the entry after front matter with a dotlog entry', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['---', 'dotlog: true', '---', '## 2025-08-07 09:00']);
+
+      await handler.processDocument(document, '2025-08-08 14:35', undefined, undefined, InsertPosition.TOP);
+
+      assert.strictEqual(mockEditor.insertedLine, 3);
+    });
+
+    test('should place the cursor at the template\'s cursor marker', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '## 2025-08-07 09:00']);
+
+      await handler.processDocument(
+        document,
+        '2025-08-08 14:35',
+        undefined,
+        { text: '- Yesterday: \n- Today:', cursorOffset: 13 },
+        InsertPosition.TOP
+      );
+
+      assert.strictEqual(mockEditor.insertedText, '\n## 2025-08-08 14:35\n- Yesterday: \n- Today:\n\n');
+      assert.deepStrictEqual(mockEditor.cursorPosition, new vscode.Position(3, 13));
+    });
+
+    test('should append to the end when nothing follows the marker', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '']);
+
+      await handler.processDocument(document, '2025-08-08 14:35', undefined, undefined, InsertPosition.TOP);
+
+      assert.strictEqual(mockEditor.insertedLine, undefined);
+      assert.strictEqual(mockEditor.insertedText, '\n## 2025-08-08 14:35\n');
+    });
+
+    test('should replace a recent empty entry at the top', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', '', '## 2025-08-07 09:00', 'Notes']);
+
+      await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.REPLACE), undefined, InsertPosition.TOP);
+
+      assert.strictEqual(mockEditor.replacedText, '## 2025-08-08 14:35\n');
+      assert.deepStrictEqual(mockEditor.replacedRange, new vscode.Range(2, 0, 3, 0));
+      assert.deepStrictEqual(mockEditor.cursorPosition, new vscode.Position(3, 0));
+    });
+
+    test('should skip the timestamp when the top entry is recent and empty', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', '', '## 2025-08-07 09:00', 'Notes']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.SKIP), undefined, InsertPosition.TOP);
+
+      assert.strictEqual(result.processingState, ProcessingState.SKIPPED);
+      assert.deepStrictEqual(mockEditor.cursorPosition, new vscode.Position(3, 0));
+    });
+
+    test('should add a timestamp when the top entry has content', async () => {
+      const document = new MockTextDocument('test.md', 'markdown', ['.LOG', '', '## 2025-08-08 14:30', 'Notes', '## 2025-08-07 09:00']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', createCoalesceOptions(CoalesceAction.SKIP), undefined, InsertPosition.TOP);
+
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(mockEditor.insertedLine, 1);
+    });
+  });
+});
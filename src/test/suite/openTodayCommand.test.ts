@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OpenTodayCommand } from '../../commands/openTodayCommand';
+import { TimestampService } from '../../services/timestampService';
+import { ConfigurationService } from '../../services/configurationService';
+import { DocumentEditor } from '../../services/documentEditor';
+import { HandlerRegistry } from '../../handlers/handlerRegistry';
+import {
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions,
+  TimeZoneSuffix
+} from '../../types';
+
+// Mock configuration service for testing
+class MockConfigurationService implements IConfigurationService {
+  private config: ExtensionConfig = ConfigurationService.getDefaultConfig();
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  setConfig(config: Partial<ExtensionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return this.config;
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return {};
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    return { markers: this.config.triggerMarkers, caseInsensitive: this.config.caseInsensitiveMarkers };
+  }
+}
+
+suite('OpenTodayCommand Test Suite', () => {
+  let testFilesDir: string;
+  let configurationService: MockConfigurationService;
+  let handlerRegistry: HandlerRegistry;
+  let command: OpenTodayCommand;
+
+  const day = new Date(2026, 9, 19, 8, 30);
+
+  suiteSetup(async () => {
+    testFilesDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dotlog-journal-tests-'));
+  });
+
+  suiteTeardown(async () => {
+    await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    await fs.promises.rm(testFilesDir, { recursive: true, force: true });
+  });
+
+  setup(() => {
+    configurationService = new MockConfigurationService();
+    configurationService.setConfig({ journalFolder: testFilesDir });
+    handlerRegistry = HandlerRegistry.createDefault(new DocumentEditor());
+    command = new OpenTodayCommand(new TimestampService(), handlerRegistry, configurationService);
+  });
+
+  suite('getJournalUri', () => {
+    test('should format the date tokens of the path pattern', () => {
+      const uri = command.getJournalUri(day);
+
+      assert.strictEqual(uri?.fsPath, path.join(testFilesDir, '2026', '10', '2026-10-19.md'));
+    });
+
+    test('should keep the file extension and bracketed text as is', () => {
+      configurationService.setConfig({ journalPathPattern: '[daily]/YYYY-MM-DD [log].adoc' });
+
+      assert.strictEqual(command.getJournalUri(day)?.fsPath, path.join(testFilesDir, 'daily', '2026-10-19 log.adoc'));
+    });
+
+    test('should not append a time zone suffix to the file name', () => {
+      const timestampService = new TimestampService();
+      timestampService.setTimeZoneSuffix(TimeZoneSuffix.OFFSET);
+      command = new OpenTodayCommand(timestampService, handlerRegistry, configurationService);
+
+      assert.strictEqual(command.getJournalUri(day)?.fsPath, path.join(testFilesDir, '2026', '10', '2026-10-19.md'));
+    });
+  });
+
+  suite('createContent', () => {
+    test('should start with the trigger marker followed by the template', () => {
+      configurationService.setConfig({ journalTemplate: '# Journal ${date}\n\n' });
+      const handler = handlerRegistry.getHandler('md')!;
+
+      assert.strictEqual(command.createContent(handler, day), '.LOG\n# Journal 2026-10-19\n');
+    });
+
+    test('should write the marker as a comment where the file type accepts one', () => {
+      const handler = handlerRegistry.getHandler('adoc')!;
+
+      assert.strictEqual(command.createContent(handler, day), '// .LOG\n');
+    });
+
+    test('should use the first configured trigger marker', () => {
+      configurationService.setConfig({ triggerMarkers: ['#LOG', '.LOG'] });
+      const handler = handlerRegistry.getHandler('txt')!;
+
+      assert.strictEqual(command.createContent(handler, day), '#LOG\n');
+    });
+
+    test('should not append a time zone suffix to the template date', () => {
+      const timestampService = new TimestampService();
+      timestampService.setTimeZoneSuffix(TimeZoneSuffix.ABBREVIATION);
+      command = new OpenTodayCommand(timestampService, handlerRegistry, configurationService);
+      configurationService.setConfig({ journalTemplate: '${date}' });
+      const handler = handlerRegistry.getHandler('txt')!;
+
+      assert.strictEqual(command.createContent(handler, day), '.LOG\n2026-10-19\n');
+    });
+  });
+
+  suite('execute', () => {
+    test('should create the journal file and open it', async () => {
+      configurationService.setConfig({ journalTemplate: 'Daily notes' });
+
+      const result = await command.execute(day);
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(
+        await fs.promises.readFile(path.join(testFilesDir, '2026', '10', '2026-10-19.md'), 'utf8'),
+        '.LOG\nDaily notes\n'
+      );
+      assert.strictEqual(vscode.window.activeTextEditor?.document.uri.fsPath, result.data?.fsPath);
+    });
+
+    test('should open an existing journal file without rewriting it', async () => {
+      const filePath = path.join(testFilesDir, '2026-10-20.txt');
+      await fs.promises.writeFile(filePath, '.LOG\nAlready written\n');
+      configurationService.setConfig({ journalPathPattern: 'YYYY-MM-DD.txt', journalTemplate: 'Daily notes' });
+
+      const result = await command.execute(new Date(2026, 9, 20, 8, 30));
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(await fs.promises.readFile(filePath, 'utf8'), '.LOG\nAlready written\n');
+    });
+
+    test('should refuse file types without a handler', async () => {
+      configurationService.setConfig({ journalPathPattern: 'YYYY-MM-DD.docx' });
+
+      const result = await command.execute(day);
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(fs.existsSync(path.join(testFilesDir, '2026-10-19.docx')), false);
+    });
+
+    test('should refuse path patterns without valid date tokens', async () => {
+      configurationService.setConfig({ journalPathPattern: 'journal.md' });
+
+      const result = await command.execute(day);
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.error, 'Invalid journal path pattern');
+      assert.strictEqual(fs.existsSync(path.join(testFilesDir, 'journal.md')), false);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { OrgFileHandler } from '../../handlers/orgFileHandler';
+import { ConfigurationService } from '../../services/configurationService';
+import { TimestampService } from '../../services/timestampService';
+import {
+  IDocumentEditor,
+  IConfigurationService,
+  ExtensionConfig,
+  TimestampOptions,
+  LogMarkerOptions,
+  OperationResult,
+  TimeZoneSuffix
+} from '../../types';
+
+// Mock document editor for testing
+class MockDocumentEditor implements IDocumentEditor {
+  private canModify: boolean = true;
+  private insertSuccess: boolean = true;
+  private positionSuccess: boolean = true;
+
+  setCanModify(canModify: boolean): void {
+    this.canModify = canModify;
+  }
+
+  setInsertSuccess(success: boolean): void {
+    this.insertSuccess = success;
+  }
+
+  setPositionSuccess(success: boolean): void {
+    this.positionSuccess = success;
+  }
+
+  canModifyDocument(document: vscode.TextDocument): boolean {
+    return this.canModify;
+  }
+
+  async insertTextAtEnd(document: vscode.TextDocument, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async positionCursorAtEnd(document: vscode.TextDocument): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
+  async positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
+}
+
+// Mock configuration service for testing
+class MockConfigurationService implements IConfigurationService {
+  private config: ExtensionConfig = ConfigurationService.getDefaultConfig();
+  private emitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+
+  onDidChangeConfiguration = this.emitter.event;
+
+  setConfig(config: Partial<ExtensionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig {
+    return this.config;
+  }
+
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions {
+    return {};
+  }
+
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions {
+    return { markers: this.config.triggerMarkers, caseInsensitive: this.config.caseInsensitiveMarkers };
+  }
+}
+
+// Mock text document for testing
+class MockTextDocument implements vscode.TextDocument {
+  constructor(
+    public fileName: string,
+    public languageId: string = 'markdown',
+    private lines: string[] = ['.LOG']
+  ) { }
+
+  get encoding(): string {
+    return 'utf8';
+  }
+
+  get uri(): vscode.Uri {
+    return vscode.Uri.file(this.fileName);
+  }
+
+  get version(): number {
+    return 1;
+  }
+
+  get isDirty(): boolean {
+    return false;
+  }
+
+  get isClosed(): boolean {
+    return false;
+  }
+
+  get isUntitled(): boolean {
+    return false;
+  }
+
+  get eol(): vscode.EndOfLine {
+    return vscode.EndOfLine.LF;
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  lineAt(line: number): vscode.TextLine;
+  lineAt(position: vscode.Position): vscode.TextLine;
+  lineAt(lineOrPosition: number | vscode.Position): vscode.TextLine {
+    const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+    const text = this.lines[lineNumber] || '';
+    return {
+      lineNumber,
+      text,
+      range: new vscode.Range(lineNumber, 0, lineNumber, text.length),
+      rangeIncludingLineBreak: new vscode.Range(lineNumber, 0, lineNumber + 1, 0),
+      firstNonWhitespaceCharacterIndex: text.search(/\S/),
+      isEmptyOrWhitespace: text.trim().length === 0
+    };
+  }
+
+  offsetAt(position: vscode.Position): number {
+    return 0;
+  }
+
+  positionAt(offset: number): vscode.Position {
+    return new vscode.Position(0, 0);
+  }
+
+  getText(range?: vscode.Range): string {
+    return this.lines.join('\n');
+  }
+
+  getWordRangeAtPosition(position: vscode.Position, regex?: RegExp): vscode.Range | undefined {
+    return undefined;
+  }
+
+  validateRange(range: vscode.Range): vscode.Range {
+    return range;
+  }
+
+  validatePosition(position: vscode.Position): vscode.Position {
+    return position;
+  }
+
+  save(): Thenable<boolean> {
+    return Promise.resolve(true);
+  }
+}
+
+suite('OrgFileHandler Tests', () => {
+  let handler: OrgFileHandler;
+  let mockEditor: MockDocumentEditor;
+  let mockConfigurationService: MockConfigurationService;
+
+  setup(() => {
+    mockEditor = new MockDocumentEditor();
+    mockConfigurationService = new MockConfigurationService();
+    handler = new OrgFileHandler(mockEditor, undefined, mockConfigurationService);
+  });
+
+  suite('canHandle', () => {
+    test('should return true for .org file with .LOG prefix', () => {
+      const document = new MockTextDocument('journal.org', 'org', ['.LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return true when #+ keyword lines come before .LOG', () => {
+      const document = new MockTextDocument('journal.org', 'org', ['#+TITLE: Journal', '#+STARTUP: overview', '', '.LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return true for .LOG written as an Org comment', () => {
+      const document = new MockTextDocument('journal.org', 'org', ['#+title: Journal', '# .LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return false when .LOG follows regular content', () => {
+      const document = new MockTextDocument('journal.org', 'org', ['#+TITLE: Journal', '* Tasks', '.LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+
+    test('should return false for non-.org file even with .LOG prefix', () => {
+      const document = new MockTextDocument('journal.txt', 'plaintext', ['#+TITLE: Journal', '.LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+  });
+
+  suite('getFileType', () => {
+    test('should return the org file type', () => {
+      assert.strictEqual(handler.getFileType(), 'org');
+    });
+  });
+
+  suite('getTimestampOptions', () => {
+    test('should request an active Org timestamp without suffix', () => {
+      assert.deepStrictEqual(handler.getTimestampOptions(), {
+        format: OrgFileHandler.TIMESTAMP_FORMAT,
+        timeZoneSuffix: TimeZoneSuffix.NONE
+      });
+    });
+
+    test('should produce Org timestamp syntax', () => {
+      const timestampService = new TimestampService('h:mm A');
+      const formatted = timestampService.formatTimestamp(new Date(2026, 9, 19, 14, 30), handler.getTimestampOptions());
+      assert.strictEqual(formatted, '<2026-10-19 Mon 14:30>');
+    });
+  });
+
+  suite('formatTimestamp', () => {
+    test('should format timestamp as a level 1 headline by default', () => {
+      const formatted = handler.formatTimestamp('<2026-10-19 Mon 14:30>');
+      assert.strictEqual(formatted, '\n* <2026-10-19 Mon 14:30>\n');
+    });
+
+    test('should use the configured heading level', () => {
+      mockConfigurationService.setConfig({ orgHeadingLevel: 3 });
+      const document = new MockTextDocument('journal.org', 'org', ['.LOG']);
+
+      const formatted = handler.formatTimestamp('<2026-10-19 Mon 14:30>', document);
+      assert.strictEqual(formatted, '\n*** <2026-10-19 Mon 14:30>\n');
+    });
+  });
+
+  suite('processDocument', () => {
+    test('should successfully process Org document', async () => {
+      mockConfigurationService.setConfig({ orgHeadingLevel: 2 });
+      const document = new MockTextDocument('journal.org', 'org', ['#+TITLE: Journal', '.LOG']);
+
+      const result = await handler.processDocument(document, '<2026-10-19 Mon 14:30>');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(result.timestamp, '\n** <2026-10-19 Mon 14:30>\n');
+    });
+  });
+});
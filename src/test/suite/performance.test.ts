@@ -96,6 +96,7 @@ suite('Performance Tests', () => {
 
       // Open the document (this triggers the processing)
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 50));
@@ -132,6 +133,7 @@ suite('Performance Tests', () => {
       const startTime = process.hrtime.bigint();
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 50));
 
       const endTime = process.hrtime.bigint();
@@ -163,6 +165,7 @@ suite('Performance Tests', () => {
       const startTime = process.hrtime.bigint();
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 100));
 
       const endTime = process.hrtime.bigint();
@@ -195,6 +198,7 @@ suite('Performance Tests', () => {
       const startTime = process.hrtime.bigint();
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 20));
 
       const endTime = process.hrtime.bigint();
@@ -236,6 +240,9 @@ suite('Performance Tests', () => {
 
       // Wait for all files to open
       const documents = await Promise.all(filePromises);
+      for (const document of documents) {
+        await vscode.window.showTextDocument(document, { preview: false });
+      }
 
       // Wait for processing to complete
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -289,6 +296,7 @@ suite('Performance Tests', () => {
         const filePath = path.join(testFilesDir, file.name);
         const fileUri = vscode.Uri.file(filePath);
         const document = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(document);
         documents.push(document);
       }
 
@@ -347,6 +355,7 @@ suite('Performance Tests', () => {
       // Perform many open/close cycles
       for (let i = 0; i < 50; i++) {
         const document = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(document);
         await new Promise(resolve => setTimeout(resolve, 10));
         await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
       }
@@ -380,6 +389,7 @@ suite('Performance Tests', () => {
 
         const startTime = process.hrtime.bigint();
         const document = await vscode.workspace.openTextDocument(fileUri);
+        await vscode.window.showTextDocument(document);
         await new Promise(resolve => setTimeout(resolve, 20));
         const endTime = process.hrtime.bigint();
 
@@ -0,0 +1,232 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { RestructuredTextFileHandler } from '../../handlers/restructuredTextFileHandler';
+import { IDocumentEditor, OperationResult, ProcessingState, CoalesceAction } from '../../types';
+
+// Mock document editor for testing
+class MockDocumentEditor implements IDocumentEditor {
+  private canModify: boolean = true;
+  private insertSuccess: boolean = true;
+  private positionSuccess: boolean = true;
+
+  setCanModify(canModify: boolean): void {
+    this.canModify = canModify;
+  }
+
+  setInsertSuccess(success: boolean): void {
+    this.insertSuccess = success;
+  }
+
+  setPositionSuccess(success: boolean): void {
+    this.positionSuccess = success;
+  }
+
+  canModifyDocument(document: vscode.TextDocument): boolean {
+    return this.canModify;
+  }
+
+  async insertTextAtEnd(document: vscode.TextDocument, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>> {
+    return {
+      success: this.insertSuccess,
+      data: this.insertSuccess,
+      error: this.insertSuccess ? undefined : 'Mock insert error'
+    };
+  }
+
+  async positionCursorAtEnd(document: vscode.TextDocument): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
+  async positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>> {
+    return {
+      success: this.positionSuccess,
+      error: this.positionSuccess ? undefined : 'Mock cursor error'
+    };
+  }
+}
+
+// Mock text document for testing
+class MockTextDocument implements vscode.TextDocument {
+  constructor(
+    public fileName: string,
+    public languageId: string = 'markdown',
+    private lines: string[] = ['.LOG']
+  ) { }
+
+  get encoding(): string {
+    return 'utf8';
+  }
+
+  get uri(): vscode.Uri {
+    return vscode.Uri.file(this.fileName);
+  }
+
+  get version(): number {
+    return 1;
+  }
+
+  get isDirty(): boolean {
+    return false;
+  }
+
+  get isClosed(): boolean {
+    return false;
+  }
+
+  get isUntitled(): boolean {
+    return false;
+  }
+
+  get eol(): vscode.EndOfLine {
+    return vscode.EndOfLine.LF;
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  lineAt(line: number): vscode.TextLine;
+  lineAt(position: vscode.Position): vscode.TextLine;
+  lineAt(lineOrPosition: number | vscode.Position): vscode.TextLine {
+    const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+    const text = this.lines[lineNumber] || '';
+    return {
+      lineNumber,
+      text,
+      range: new vscode.Range(lineNumber, 0, lineNumber, text.length),
+      rangeIncludingLineBreak: new vscode.Range(lineNumber, 0, lineNumber + 1, 0),
+      firstNonWhitespaceCharacterIndex: text.search(/\S/),
+      isEmptyOrWhitespace: text.trim().length === 0
+    };
+  }
+
+  offsetAt(position: vscode.Position): number {
+    return 0;
+  }
+
+  positionAt(offset: number): vscode.Position {
+    return new vscode.Position(0, 0);
+  }
+
+  getText(range?: vscode.Range): string {
+    return this.lines.join('\n');
+  }
+
+  getWordRangeAtPosition(position: vscode.Position, regex?: RegExp): vscode.Range | undefined {
+    return undefined;
+  }
+
+  validateRange(range: vscode.Range): vscode.Range {
+    return range;
+  }
+
+  validatePosition(position: vscode.Position): vscode.Position {
+    return position;
+  }
+
+  save(): Thenable<boolean> {
+    return Promise.resolve(true);
+  }
+}
+
+suite('RestructuredTextFileHandler Tests', () => {
+  let handler: RestructuredTextFileHandler;
+  let mockEditor: MockDocumentEditor;
+
+  setup(() => {
+    mockEditor = new MockDocumentEditor();
+    handler = new RestructuredTextFileHandler(mockEditor);
+  });
+
+  suite('canHandle', () => {
+    test('should return true for .rst file with .LOG prefix', () => {
+      const document = new MockTextDocument('runbook.rst', 'restructuredtext', ['.LOG']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should return true for .rst file with .LOG in a comment', () => {
+      const document = new MockTextDocument('runbook.rst', 'restructuredtext', ['.. .LOG', '', 'Runbook']);
+      assert.strictEqual(handler.canHandle(document), true);
+    });
+
+    test('should not treat an ellipsis as a comment', () => {
+      const document = new MockTextDocument('runbook.rst', 'restructuredtext', ['...LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+
+    test('should return false for non-rst file even with .LOG comment', () => {
+      const document = new MockTextDocument('runbook.md', 'markdown', ['.. .LOG']);
+      assert.strictEqual(handler.canHandle(document), false);
+    });
+  });
+
+  suite('getFileType', () => {
+    test('should return the rst file type', () => {
+      assert.strictEqual(handler.getFileType(), 'rst');
+    });
+  });
+
+  suite('formatTimestamp', () => {
+    test('should underline the timestamp with one dash per character', () => {
+      const formatted = handler.formatTimestamp('2025-08-08 14:30');
+      assert.strictEqual(formatted, '\n2025-08-08 14:30\n----------------\n');
+    });
+
+    test('should match the underline to timestamps of any length', () => {
+      const timestamp = 'Friday, August 8, 2025 at 2:30:05 PM';
+      const lines = handler.formatTimestamp(timestamp).split('\n');
+      assert.strictEqual(lines[2].length, timestamp.length);
+      assert.ok(/^-+$/.test(lines[2]));
+    });
+
+    test('should count wide characters as two columns', () => {
+      const formatted = handler.formatTimestamp('2025年8月8日 14:30');
+      assert.strictEqual(formatted, '\n2025年8月8日 14:30\n' + '-'.repeat(18) + '\n');
+    });
+  });
+
+  suite('processDocument', () => {
+    test('should successfully process reStructuredText document', async () => {
+      const document = new MockTextDocument('runbook.rst', 'restructuredtext', ['.. .LOG']);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:30');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.documentModified, true);
+      assert.strictEqual(result.timestamp, '\n2025-08-08 14:30\n----------------\n');
+    });
+
+    test('should recognize a recent empty section title with its underline', async () => {
+      const document = new MockTextDocument('runbook.rst', 'restructuredtext', [
+        '.. .LOG', '', '2025-08-08 14:30', '----------------', ''
+      ]);
+
+      const result = await handler.processDocument(document, '2025-08-08 14:35', {
+        windowMinutes: 15,
+        action: CoalesceAction.SKIP,
+        parseTimestamp: () => new Date()
+      });
+
+      assert.strictEqual(result.documentModified, false);
+      assert.strictEqual(result.processingState, ProcessingState.SKIPPED);
+    });
+  });
+});
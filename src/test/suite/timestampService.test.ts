@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import { TimestampService } from '../../services/timestampService';
-import { ErrorCode } from '../../types';
+import { ErrorCode, TimeZoneSuffix } from '../../types';
 
 suite('TimestampService Test Suite', () => {
   let timestampService: TimestampService;
@@ -124,6 +124,282 @@ suite('TimestampService Test Suite', () => {
     });
   });
 
+  suite('custom formats', () => {
+    test('should use default format when none is provided', () => {
+      assert.strictEqual(timestampService.getFormat(), TimestampService.DEFAULT_FORMAT);
+    });
+
+    test('should format 24-hour time with seconds', () => {
+      timestampService.setFormat('YYYY/MM/DD HH:mm:ss');
+      const formatted = timestampService.formatTimestamp(new Date(2025, 5, 15, 20, 45, 7));
+
+      assert.strictEqual(formatted, '2025/06/15 20:45:07', 'Should format 24-hour time with seconds');
+    });
+
+    test('should format month and day names', () => {
+      timestampService.setFormat('dddd, MMMM D YYYY');
+      const formatted = timestampService.formatTimestamp(new Date(2025, 0, 5, 9, 7));
+
+      assert.strictEqual(formatted, 'Sunday, January 5 2025', 'Should format full day and month names');
+    });
+
+    test('should format short names and unpadded 12-hour time', () => {
+      timestampService.setFormat('ddd DD MMM YY h:mm a');
+      const formatted = timestampService.formatTimestamp(new Date(2025, 11, 25, 0, 5));
+
+      assert.strictEqual(formatted, 'Thu 25 Dec 25 12:05 am', 'Should format short names and lowercase am');
+    });
+
+    test('should keep bracketed text as literal', () => {
+      timestampService.setFormat('[Week of] YYYY-MM-DD');
+      const formatted = timestampService.formatTimestamp(new Date(2025, 0, 5, 9, 7));
+
+      assert.strictEqual(formatted, 'Week of 2025-01-05', 'Should not replace tokens inside brackets');
+    });
+
+    test('should accept a valid format via constructor', () => {
+      const service = new TimestampService('HH:mm');
+
+      assert.strictEqual(service.formatTimestamp(new Date(2025, 0, 5, 9, 7)), '09:07');
+    });
+
+    test('should reject invalid formats and fall back to default', () => {
+      const invalidFormats = ['', '   ', 'YYYY-MM-DD HH:MI', '[unclosed YYYY', 'no tokens here', '---'];
+
+      invalidFormats.forEach(format => {
+        const applied = timestampService.setFormat(format);
+
+        assert.strictEqual(applied, false, `Format "${format}" should be rejected`);
+        assert.strictEqual(timestampService.getFormat(), TimestampService.DEFAULT_FORMAT, `Format "${format}" should fall back to default`);
+        assert.strictEqual(timestampService.formatTimestamp(new Date(2025, 0, 5, 9, 7)), '2025-01-05 09:07 AM');
+      });
+    });
+
+    test('should validate formats without applying them', () => {
+      assert.strictEqual(TimestampService.isValidFormat('YYYY-MM-DD'), true);
+      assert.strictEqual(TimestampService.isValidFormat('[Logged] h:mm A'), true);
+      assert.strictEqual(TimestampService.isValidFormat('Date: YYYY'), false);
+      assert.strictEqual(TimestampService.isValidFormat(undefined), false);
+      assert.strictEqual(TimestampService.isValidFormat(42), false);
+    });
+  });
+
+  suite('presets', () => {
+    /**
+     * Formats a UTC offset the way the Z and ZZ tokens do, for the local time zone at the given date
+     */
+    function localOffset(date: Date, separator: string): string {
+      const offsetMinutes = -date.getTimezoneOffset();
+      const sign = offsetMinutes < 0 ? '-' : '+';
+      const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+      const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+      return `${sign}${hours}${separator}${minutes}`;
+    }
+
+    test('should accept preset names as valid formats', () => {
+      ['default', 'notepad', 'iso8601', 'iso8601-utc', 'rfc2822', 'locale'].forEach(preset => {
+        assert.strictEqual(TimestampService.isValidFormat(preset), true, `Preset "${preset}" should be valid`);
+        assert.strictEqual(timestampService.setFormat(preset), true, `Preset "${preset}" should be applied`);
+      });
+    });
+
+    test('should format notepad preset like Windows Notepad in en-US', () => {
+      const service = new TimestampService('notepad', 'en-US');
+
+      assert.strictEqual(service.formatTimestamp(new Date(2026, 9, 19, 14, 30)), '2:30 PM 10/19/2026');
+      assert.strictEqual(service.formatTimestamp(new Date(2026, 0, 5, 0, 7)), '12:07 AM 1/5/2026');
+    });
+
+    test('should format notepad preset in the configured locale', () => {
+      const service = new TimestampService('notepad', 'de-DE');
+
+      assert.strictEqual(service.formatTimestamp(new Date(2026, 9, 19, 14, 30)), '14:30 19.10.2026');
+    });
+
+    test('should format iso8601 preset with local offset', () => {
+      const date = new Date(2026, 9, 19, 14, 30, 5);
+      const formatted = timestampService.formatTimestamp(date, { format: 'iso8601' });
+
+      assert.strictEqual(formatted, `2026-10-19T14:30:05${localOffset(date, ':')}`);
+    });
+
+    test('should format iso8601-utc preset in UTC', () => {
+      const date = new Date(Date.UTC(2026, 9, 19, 14, 30, 5));
+
+      assert.strictEqual(timestampService.formatTimestamp(date, { format: 'iso8601-utc' }), '2026-10-19T14:30:05Z');
+    });
+
+    test('should format rfc2822 preset', () => {
+      const date = new Date(2026, 9, 19, 14, 30, 5);
+      const formatted = timestampService.formatTimestamp(date, { format: 'rfc2822' });
+
+      assert.strictEqual(formatted, `Mon, 19 Oct 2026 14:30:05 ${localOffset(date, '')}`);
+    });
+
+    test('should format locale preset with Intl', () => {
+      const service = new TimestampService('locale', 'en-US');
+
+      assert.strictEqual(service.formatTimestamp(new Date(2026, 9, 19, 14, 30)), 'Oct 19, 2026, 2:30 PM');
+    });
+
+    test('should fall back to runtime default for unsupported locales', () => {
+      assert.strictEqual(timestampService.setLocale('en-US'), true);
+      assert.strictEqual(timestampService.getLocale(), 'en-US');
+
+      assert.strictEqual(timestampService.setLocale('not a locale!'), false);
+      assert.strictEqual(timestampService.getLocale(), undefined);
+
+      assert.strictEqual(timestampService.setLocale(''), false);
+      assert.strictEqual(timestampService.getLocale(), undefined);
+    });
+  });
+
+  suite('time zones', () => {
+    // 2026-10-19 12:30:05 UTC is 14:30:05 in Berlin (CEST, +02:00) and 08:30:05 in New York (EDT, -04:00)
+    const instant = new Date(Date.UTC(2026, 9, 19, 12, 30, 5));
+
+    test('should format in UTC regardless of host time zone', () => {
+      timestampService.setTimeZone('UTC');
+
+      assert.strictEqual(timestampService.formatTimestamp(instant), '2026-10-19 12:30 PM');
+    });
+
+    test('should format in an IANA time zone', () => {
+      timestampService.setTimeZone('Europe/Berlin');
+
+      assert.strictEqual(timestampService.formatTimestamp(instant), '2026-10-19 02:30 PM');
+      assert.strictEqual(timestampService.formatTimestamp(instant, { format: 'iso8601' }), '2026-10-19T14:30:05+02:00');
+    });
+
+    test('should resolve the date and weekday in the target zone', () => {
+      const lateEvening = new Date(Date.UTC(2026, 9, 19, 23, 30));
+      timestampService.setTimeZone('Asia/Tokyo');
+
+      assert.strictEqual(timestampService.formatTimestamp(lateEvening, { format: 'ddd YYYY-MM-DD HH:mm' }), 'Tue 2026-10-20 08:30');
+    });
+
+    test('should handle negative and fractional offsets', () => {
+      assert.strictEqual(
+        timestampService.formatTimestamp(instant, { format: 'HH:mm Z', timeZone: 'America/New_York' }),
+        '08:30 -04:00'
+      );
+      assert.strictEqual(
+        timestampService.formatTimestamp(instant, { format: 'HH:mm ZZ', timeZone: 'Asia/Kolkata' }),
+        '18:00 +0530'
+      );
+    });
+
+    test('should append an offset suffix', () => {
+      const formatted = timestampService.formatTimestamp(instant, {
+        format: 'YYYY-MM-DD HH:mm',
+        timeZone: 'Europe/Berlin',
+        timeZoneSuffix: TimeZoneSuffix.OFFSET
+      });
+
+      assert.strictEqual(formatted, '2026-10-19 14:30 +02:00');
+    });
+
+    test('should append a zone abbreviation suffix', () => {
+      const formatted = timestampService.formatTimestamp(instant, {
+        format: 'YYYY-MM-DD HH:mm',
+        timeZone: 'America/New_York',
+        timeZoneSuffix: TimeZoneSuffix.ABBREVIATION
+      });
+
+      assert.strictEqual(formatted, '2026-10-19 08:30 EDT');
+    });
+
+    test('should not append the active suffix to an explicit format', () => {
+      timestampService.setTimeZoneSuffix(TimeZoneSuffix.OFFSET);
+
+      const formatted = timestampService.formatTimestamp(instant, { format: 'YYYY-MM-DD', timeZone: 'Europe/Berlin' });
+
+      assert.strictEqual(formatted, '2026-10-19');
+      assert.match(timestampService.formatTimestamp(instant), / [+-]\d{2}:\d{2}$/);
+    });
+
+    test('should apply the time zone to Intl presets', () => {
+      const service = new TimestampService('notepad', 'en-US');
+      service.setTimeZone('Europe/Berlin');
+
+      assert.strictEqual(service.formatTimestamp(instant), '2:30 PM 10/19/2026');
+    });
+
+    test('should always use UTC for the iso8601-utc preset', () => {
+      timestampService.setTimeZone('Europe/Berlin');
+
+      assert.strictEqual(timestampService.formatTimestamp(instant, { format: 'iso8601-utc' }), '2026-10-19T12:30:05Z');
+    });
+
+    test('should fall back to local time for unknown zones', () => {
+      assert.strictEqual(timestampService.setTimeZone('Mars/Olympus_Mons'), false);
+      assert.strictEqual(timestampService.getTimeZone(), undefined);
+      assert.strictEqual(TimestampService.isValidTimeZone('Mars/Olympus_Mons'), false);
+    });
+
+    test('should treat an empty time zone as local time', () => {
+      timestampService.setTimeZone('UTC');
+
+      assert.strictEqual(timestampService.setTimeZone(''), true);
+      assert.strictEqual(timestampService.getTimeZone(), undefined);
+    });
+  });
+
+  suite('parseTimestamp', () => {
+    // 2026-10-19 12:30 UTC is 14:30 in Berlin (CEST, +02:00)
+    const instant = new Date(Date.UTC(2026, 9, 19, 12, 30));
+
+    test('should parse timestamps in the default format', () => {
+      timestampService.setTimeZone('UTC');
+
+      assert.strictEqual(timestampService.parseTimestamp('2026-10-19 12:30 PM')?.getTime(), instant.getTime());
+    });
+
+    test('should round-trip token formats and presets', () => {
+      const formats = ['iso8601', 'iso8601-utc', 'rfc2822', 'notepad', 'locale', 'dddd, MMMM D, YYYY [at] h:mm a', '<YYYY-MM-DD ddd HH:mm>'];
+      timestampService.setTimeZone('Europe/Berlin');
+
+      for (const format of formats) {
+        const formatted = timestampService.formatTimestamp(instant, { format });
+        assert.strictEqual(timestampService.parseTimestamp(formatted, { format })?.getTime(), instant.getTime(), format);
+      }
+    });
+
+    test('should read localized month names', () => {
+      const germanService = new TimestampService('locale', 'de-DE');
+      germanService.setTimeZone('UTC');
+
+      const formatted = germanService.formatTimestamp(instant);
+      assert.strictEqual(germanService.parseTimestamp(formatted)?.getTime(), instant.getTime());
+    });
+
+    test('should apply the time zone and suffix', () => {
+      const options = { format: 'YYYY-MM-DD HH:mm', timeZone: 'Europe/Berlin', timeZoneSuffix: TimeZoneSuffix.OFFSET };
+
+      assert.strictEqual(timestampService.parseTimestamp('2026-10-19 14:30', options)?.getTime(), instant.getTime());
+      assert.strictEqual(timestampService.parseTimestamp('2026-10-19 08:30 -04:00', options)?.getTime(), instant.getTime());
+    });
+
+    test('should return null for text in another format or invalid dates', () => {
+      assert.strictEqual(timestampService.parseTimestamp('Meeting notes'), null);
+      assert.strictEqual(timestampService.parseTimestamp('2026-10-19 14:30'), null);
+      assert.strictEqual(timestampService.parseTimestamp('2026-02-30 02:30 PM'), null);
+      assert.strictEqual(timestampService.parseTimestamp('2026-10-19 13:30 PM'), null);
+    });
+
+    test('should return null for formats without a date', () => {
+      assert.strictEqual(timestampService.parseTimestamp('14:30', { format: 'HH:mm' }), null);
+    });
+
+    test('should create reusable parsers', () => {
+      const parse = timestampService.createParser({ format: 'YYYY-MM-DD HH:mm', timeZone: 'UTC' });
+
+      assert.strictEqual(parse('2026-10-19 12:30')?.getTime(), instant.getTime());
+      assert.strictEqual(parse('Meeting notes'), null);
+      assert.strictEqual(parse('2026-10-19 12:30')?.getTime(), instant.getTime());
+    });
+  });
+
   suite('getCurrentTimestamp', () => {
     test('should return successful result with timestamp', () => {
       const result = timestampService.getCurrentTimestamp();
@@ -6,7 +6,6 @@ import { promisify } from 'util';
 
 // Import extension functions
 import { activate, deactivate } from '../../extension';
-import { SupportedFileType } from '../../types';
 
 const writeFile = promisify(fs.writeFile);
 const unlink = promisify(fs.unlink);
@@ -94,6 +93,7 @@ suite('End-to-End Workflow Tests', () => {
 
       // Step 2: Open document (triggers file monitor)
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
 
       // Step 3: Wait for complete processing workflow
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -134,6 +134,7 @@ suite('End-to-End Workflow Tests', () => {
       await writeFile(filePath, '.LOG\n2025-01-15 09:00\nApplication started\n');
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       const content = document.getText();
@@ -161,6 +162,7 @@ suite('End-to-End Workflow Tests', () => {
       await writeFile(filePath, '.LOG\n\n## 2025-01-15 09:00\n\nExisting entry\n');
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       const content = document.getText();
@@ -188,6 +190,7 @@ suite('End-to-End Workflow Tests', () => {
       await writeFile(filePath, '.LOG');
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       const content = document.getText();
@@ -212,6 +215,7 @@ suite('End-to-End Workflow Tests', () => {
       await writeFile(filePath, originalContent);
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       const content = document.getText();
@@ -231,6 +235,7 @@ suite('End-to-End Workflow Tests', () => {
       await writeFile(filePath, originalContent);
 
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       const content = document.getText();
@@ -253,6 +258,7 @@ suite('End-to-End Workflow Tests', () => {
 
       // The workflow should not crash even with unusual content
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Extension should handle this gracefully
@@ -271,11 +277,13 @@ suite('End-to-End Workflow Tests', () => {
 
       // First workflow execution
       let document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
       await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
 
       // Second workflow execution
       document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       const content = document.getText();
@@ -313,6 +321,9 @@ suite('End-to-End Workflow Tests', () => {
       }
 
       const documents = await Promise.all(filePromises);
+      for (const document of documents) {
+        await vscode.window.showTextDocument(document, { preview: false });
+      }
       await new Promise(resolve => setTimeout(resolve, 300));
 
       // Verify all workflows completed successfully
@@ -345,6 +356,7 @@ suite('End-to-End Workflow Tests', () => {
       // Create and open file
       await writeFile(filePath, '.LOG\nContent before save\n');
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Verify timestamp was added
@@ -378,10 +390,12 @@ suite('End-to-End Workflow Tests', () => {
 
       // Open first file
       const doc1 = await vscode.workspace.openTextDocument(file1Uri);
+      await vscode.window.showTextDocument(doc1);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Open second file (switches editor)
       const doc2 = await vscode.workspace.openTextDocument(file2Uri);
+      await vscode.window.showTextDocument(doc2);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Verify both files were processed correctly
@@ -410,6 +424,7 @@ suite('End-to-End Workflow Tests', () => {
 
       // Open document
       const document = await vscode.workspace.openTextDocument(fileUri);
+      await vscode.window.showTextDocument(document);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Verify processing worked despite being in test environment
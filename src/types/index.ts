@@ -1,10 +1,39 @@
 import * as vscode from 'vscode';
 
-// Enums for supported file types and processing states
-export enum SupportedFileType {
-  TEXT = 'txt',
-  LOG = 'log',
-  MARKDOWN = 'md'
+// ID of a file type, such as 'md'; each handler owns the ID it returns from getFileType()
+export type SupportedFileType = string;
+
+// Enums for settings values and processing states
+export enum TimestampPreset {
+  DEFAULT = 'default',
+  NOTEPAD = 'notepad',
+  ISO8601 = 'iso8601',
+  ISO8601_UTC = 'iso8601-utc',
+  RFC2822 = 'rfc2822',
+  LOCALE = 'locale'
+}
+
+export enum TimeZoneSuffix {
+  NONE = 'none',
+  OFFSET = 'offset',
+  ABBREVIATION = 'abbreviation'
+}
+
+export enum TriggerMode {
+  OPEN = 'open',
+  FOCUS = 'focus',
+  SAVE = 'save',
+  MANUAL = 'manual'
+}
+
+export enum CoalesceAction {
+  SKIP = 'skip',
+  REPLACE = 'replace'
+}
+
+export enum InsertPosition {
+  BOTTOM = 'bottom',
+  TOP = 'top'
 }
 
 export enum ProcessingState {
@@ -16,12 +45,24 @@ export enum ProcessingState {
 }
 
 // Core data models
+
+// The read-only parts of a document that .LOG files are detected and parsed through,
+// so files read from disk don't have to be opened as documents
+export interface DocumentText {
+  readonly uri: vscode.Uri;
+  readonly fileName: string;
+  readonly languageId: string;
+  readonly lineCount: number;
+  lineAt(line: number): vscode.TextLine;
+}
+
 export interface DocumentContext {
   document: vscode.TextDocument;
   fileType: SupportedFileType;
   timestamp: string;
   shouldProcess: boolean;
   processingState: ProcessingState;
+  directives?: LogDirectives;
 }
 
 // Result interfaces for error handling
@@ -57,49 +98,204 @@ export enum ErrorCode {
   CONTENT_ANALYSIS_FAILED = 'CONTENT_ANALYSIS_FAILED',
   TIMESTAMP_GENERATION_FAILED = 'TIMESTAMP_GENERATION_FAILED',
   CURSOR_POSITIONING_FAILED = 'CURSOR_POSITIONING_FAILED',
+  NO_ACTIVE_EDITOR = 'NO_ACTIVE_EDITOR',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
 // Service interfaces
 export interface IContentAnalyzer {
-  shouldProcessDocument(document: vscode.TextDocument): boolean;
-  isLogFile(document: vscode.TextDocument): boolean;
-  getFileType(document: vscode.TextDocument): SupportedFileType | null;
+  shouldProcessDocument(document: DocumentText): boolean;
+  isLogFile(document: DocumentText): boolean;
+  getFileType(document: DocumentText): SupportedFileType | null;
   analyzeContent(document: vscode.TextDocument): OperationResult<DocumentContext>;
 }
 
+export interface TimestampOptions {
+  format?: string;
+  timeZone?: string;
+  timeZoneSuffix?: TimeZoneSuffix;
+}
+
 export interface ITimestampService {
   generateTimestamp(): string;
-  formatTimestamp(date: Date): string;
-  getCurrentTimestamp(): OperationResult<string>;
+  formatTimestamp(date: Date, options?: TimestampOptions): string;
+  getCurrentTimestamp(options?: TimestampOptions): OperationResult<string>;
+  parseTimestamp(text: string, options?: TimestampOptions): Date | null;
+  createParser(options?: TimestampOptions): (text: string) => Date | null;
+}
+
+// Skips or replaces a new timestamp when the last entry is this recent and still empty
+export interface CoalesceOptions {
+  windowMinutes: number;
+  action: CoalesceAction;
+  parseTimestamp(text: string): Date | null;
+}
+
+// Text written beneath a new timestamp, and the cursor's offset in it when the template sets one
+export interface EntryTemplate {
+  text: string;
+  cursorOffset?: number;
+}
+
+export interface IEntryTemplateService {
+  resolveTemplate(
+    document: vscode.TextDocument,
+    fileType: SupportedFileType,
+    timestamp: string,
+    name?: string
+  ): Promise<EntryTemplate | undefined>;
+}
+
+// A timestamped entry written by a file handler, from its timestamp to the line before the next entry
+export interface LogEntry {
+  timestamp: string;
+  date: Date;
+  title: string;
+  text: string;
+  headerRange: vscode.Range;
+  range: vscode.Range;
+}
+
+export interface ILogEntryParser {
+  parseEntries(document: DocumentText): LogEntry[];
+  parseEntryAt(document: DocumentText, line: number): LogEntry | null;
+}
+
+// A .LOG file found in the workspace, with the entries it had when last read
+export interface LogFile {
+  uri: vscode.Uri;
+  fileType: SupportedFileType;
+  entries: LogEntry[];
+}
+
+export interface ILogFileIndex {
+  getFiles(): Promise<LogFile[]>;
+  refresh(): Promise<void>;
+  onDidChange: vscode.Event<void>;
+}
+
+// An entry in the cross-file timeline, with the file it belongs to
+export interface TimelineEntry {
+  file: LogFile;
+  entry: LogEntry;
+}
+
+// Days are YYYY-MM-DD in the configured time zone, both inclusive
+export interface TimelineFilter {
+  fromDay?: string;
+  toDay?: string;
+  fileUri?: vscode.Uri;
+  text?: string;
+}
+
+export interface LogMarkerOptions {
+  markers: string[];
+  caseInsensitive: boolean;
+}
+
+// Options written after the trigger marker, e.g. `.LOG format=iso8601 tz=UTC template=standup heading=3 insert=top`
+export interface LogDirectives {
+  format?: string;
+  timeZone?: string;
+  template?: string;
+  headingLevel?: number;
+  insertPosition?: InsertPosition;
+}
+
+export interface LogMarkerMatch {
+  line: number;
+  marker: string;
+  directives?: LogDirectives;
+}
+
+export interface MarkerSearchOptions {
+  frontMatter?: boolean;
+  commentPrefixes?: string[];
+  headerPattern?: RegExp;
+}
+
+export interface ILogMarkerMatcher {
+  findMarker(document: DocumentText, search?: MarkerSearchOptions): LogMarkerMatch | null;
+  hasMarker(document: DocumentText, search?: MarkerSearchOptions): boolean;
+  findEntriesStart(document: DocumentText, search?: MarkerSearchOptions): number | null;
 }
 
 export interface IDocumentEditor {
   insertTextAtEnd(document: vscode.TextDocument, text: string): Promise<OperationResult<boolean>>;
+  insertTextAtLine(document: vscode.TextDocument, line: number, text: string): Promise<OperationResult<boolean>>;
+  replaceText(document: vscode.TextDocument, range: vscode.Range, text: string): Promise<OperationResult<boolean>>;
   positionCursorAtEnd(document: vscode.TextDocument): Promise<OperationResult<void>>;
+  positionCursor(document: vscode.TextDocument, position: vscode.Position): Promise<OperationResult<void>>;
   canModifyDocument(document: vscode.TextDocument): boolean;
 }
 
 export interface IFileHandler {
   canHandle(document: vscode.TextDocument): boolean;
-  processDocument(document: vscode.TextDocument, timestamp: string): Promise<ProcessingResult>;
+  processDocument(
+    document: vscode.TextDocument,
+    timestamp: string,
+    coalesce?: CoalesceOptions,
+    template?: EntryTemplate,
+    insertPosition?: InsertPosition
+  ): Promise<ProcessingResult>;
   getFileType(): SupportedFileType;
-  formatTimestamp(timestamp: string): string;
+  getExtensions(): string[];
+  getLanguageIds(): string[];
+  getMarkerSearchOptions(): MarkerSearchOptions;
+  getTimestampOptions(document?: DocumentText): TimestampOptions;
+  formatTimestamp(timestamp: string, document?: DocumentText): string;
+  readEntryTimestamp(document: DocumentText, line: number): string | null;
+  getEntryLineCount(): number;
+}
+
+export interface IHandlerRegistry {
+  register(handler: IFileHandler): void;
+  unregister(fileType: SupportedFileType): boolean;
+  getHandler(fileType: SupportedFileType): IFileHandler | undefined;
+  getHandlerForDocument(document: DocumentText): IFileHandler | undefined;
+  getHandlers(): IFileHandler[];
+  getFileTypes(): SupportedFileType[];
+  getEnabledFileTypes(supportedFileTypes: SupportedFileType[] | null): SupportedFileType[];
+  getExtensions(): Set<string>;
 }
 
 export interface IFileMonitor {
   startMonitoring(): OperationResult<void>;
   stopMonitoring(): OperationResult<void>;
   onDocumentOpened(document: vscode.TextDocument): Promise<ProcessingResult>;
+  addEntry(document: vscode.TextDocument): Promise<ProcessingResult>;
   isMonitoring(): boolean;
 }
 
+export interface IConfigurationService {
+  getConfig(scope?: vscode.ConfigurationScope): ExtensionConfig;
+  getTimestampOptions(scope?: vscode.ConfigurationScope): TimestampOptions;
+  getMarkerOptions(scope?: vscode.ConfigurationScope): LogMarkerOptions;
+  onDidChangeConfiguration: vscode.Event<vscode.ConfigurationChangeEvent>;
+}
+
 // Configuration and settings types
 export interface ExtensionConfig {
   enabled: boolean;
   timestampFormat: string;
-  supportedFileTypes: SupportedFileType[];
+  locale: string;
+  timeZone: string;
+  timeZoneSuffix: TimeZoneSuffix;
+  supportedFileTypes: SupportedFileType[] | null;
+  triggerMarkers: string[];
+  caseInsensitiveMarkers: boolean;
+  orgHeadingLevel: number;
+  trigger: TriggerMode;
+  focusIdleMinutes: number;
+  coalesceWindowMinutes: number;
+  coalesceAction: CoalesceAction;
+  insertPosition: InsertPosition;
   performanceThresholdMs: number;
+  minimumStampIntervalSeconds: number;
+  journalFolder: string;
+  journalPathPattern: string;
+  journalTemplate: string;
+  entryTemplates: Record<string, string>;
   enableLogging: boolean;
   logLevel: LogLevel;
 }
@@ -125,8 +321,24 @@ export interface ErrorEvent {
 }
 
 // Type guards for runtime type checking
-export function isSupportedFileType(value: string): value is SupportedFileType {
-  return Object.values(SupportedFileType).includes(value as SupportedFileType);
+export function isTimestampPreset(value: string): value is TimestampPreset {
+  return Object.values(TimestampPreset).includes(value as TimestampPreset);
+}
+
+export function isTimeZoneSuffix(value: string): value is TimeZoneSuffix {
+  return Object.values(TimeZoneSuffix).includes(value as TimeZoneSuffix);
+}
+
+export function isCoalesceAction(value: string): value is CoalesceAction {
+  return Object.values(CoalesceAction).includes(value as CoalesceAction);
+}
+
+export function isInsertPosition(value: string): value is InsertPosition {
+  return Object.values(InsertPosition).includes(value as InsertPosition);
+}
+
+export function isTriggerMode(value: string): value is TriggerMode {
+  return Object.values(TriggerMode).includes(value as TriggerMode);
 }
 
 export function isProcessingState(value: string): value is ProcessingState {
@@ -135,4 +347,8 @@ export function isProcessingState(value: string): value is ProcessingState {
 
 export function isErrorCode(value: string): value is ErrorCode {
   return Object.values(ErrorCode).includes(value as ErrorCode);
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return Object.values(LogLevel).includes(value as LogLevel);
 }
\ No newline at end of file
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  ILogFileIndex,
+  ITimestampService,
+  IConfigurationService,
+  LogFile,
+  TimelineEntry,
+  TimeZoneSuffix
+} from '../types';
+import { ErrorLogger } from '../services/errorLogger';
+
+// Messages posted by the calendar's script
+type CalendarMessage =
+  | { type: 'showMonth'; month: string }
+  | { type: 'selectDay'; day: string }
+  | { type: 'openEntry'; day: string; index: number };
+
+/**
+ * Webview panel with a month grid that highlights the days with entries in any .LOG file
+ * Selecting a day lists its entries below the grid, and clicking an entry opens its file at the entry.
+ * The page is rendered here and replaced whenever the month, the selected day or the files change.
+ * If the entries can't be read, the page shows the error instead of a stale calendar.
+ */
+export class CalendarPanel implements vscode.Disposable {
+  public static readonly VIEW_TYPE = 'dotlog.calendar';
+
+  private static readonly DAY_FORMAT = 'YYYY-MM-DD';
+  private static readonly DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly closeEmitter = new vscode.EventEmitter<void>();
+  private logger: ErrorLogger;
+  private entriesByDay = new Map<string, TimelineEntry[]>();
+  private month: string;
+  private selectedDay: string | undefined;
+
+  public readonly onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private fileIndex: ILogFileIndex,
+    private timestampService: ITimestampService,
+    private configurationService: IConfigurationService
+  ) {
+    this.logger = ErrorLogger.getInstance();
+    this.selectedDay = this.toDay(new Date());
+    this.month = this.selectedDay.substring(0, 7);
+
+    this.panel = vscode.window.createWebviewPanel(
+      CalendarPanel.VIEW_TYPE,
+      'dotLOG Calendar',
+      vscode.ViewColumn.Beside,
+      { enableScripts: true }
+    );
+
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage((message: CalendarMessage) => this.handleMessage(message)),
+      this.fileIndex.onDidChange(() => this.update())
+    );
+
+    void this.update();
+  }
+
+  /**
+   * Shows the panel in its current editor column
+   */
+  public reveal(): void {
+    this.panel.reveal();
+  }
+
+  /**
+   * Closes the panel and stops listening for changes
+   */
+  public dispose(): void {
+    if (this.disposables.length === 0) {
+      return;
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+    this.panel.dispose();
+    this.closeEmitter.fire();
+    this.closeEmitter.dispose();
+  }
+
+  /**
+   * Groups the entries of the given files by their day in the time zone configured for each file
+   * @param files The .LOG files
+   * @returns Entries by YYYY-MM-DD day, each day's entries in chronological order
+   */
+  public groupEntriesByDay(files: LogFile[]): Map<string, TimelineEntry[]> {
+    const entriesByDay = new Map<string, TimelineEntry[]>();
+
+    for (const file of files) {
+      for (const entry of file.entries) {
+        const day = this.toDay(entry.date, file.uri);
+        const dayEntries = entriesByDay.get(day) || [];
+        dayEntries.push({ file, entry });
+        entriesByDay.set(day, dayEntries);
+      }
+    }
+
+    for (const dayEntries of entriesByDay.values()) {
+      dayEntries.sort((a, b) => a.entry.date.getTime() - b.entry.date.getTime());
+    }
+
+    return entriesByDay;
+  }
+
+  /**
+   * Renders the calendar page
+   * @param month The month to show, as YYYY-MM
+   * @param entriesByDay Entries by YYYY-MM-DD day
+   * @param selectedDay The day whose entries are listed, if any
+   * @param today Today's day, which is outlined
+   * @param nonce Nonce allowing the page's script and style under its content security policy
+   * @returns The HTML document
+   */
+  public renderHtml(
+    month: string,
+    entriesByDay: Map<string, TimelineEntry[]>,
+    selectedDay: string | undefined,
+    today: string,
+    nonce: string
+  ): string {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const locale = this.configurationService.getConfig().locale || vscode.env.language;
+    const monthTitle = new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'long', timeZone: 'UTC' })
+      .format(new Date(Date.UTC(year, monthIndex - 1, 1)));
+    const weekdayFormat = new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' });
+
+    // Weeks start on Monday; 2024-01-01 was a Monday
+    const weekdays = Array.from({ length: 7 }, (_, index) => weekdayFormat.format(new Date(Date.UTC(2024, 0, 1 + index))));
+    const leadingBlanks = (new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay() + 6) % 7;
+    const dayCount = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+
+    const cells: string[] = Array.from({ length: leadingBlanks }, () => '<div class="blank"></div>');
+    for (let date = 1; date <= dayCount; date++) {
+      const day = `${month}-${String(date).padStart(2, '0')}`;
+      const count = entriesByDay.get(day)?.length || 0;
+      const classes = [
+        'day',
+        ...(count > 0 ? ['has-entries'] : []),
+        ...(day === today ? ['today'] : []),
+        ...(day === selectedDay ? ['selected'] : [])
+      ];
+      const title = count === 1 ? '1 entry' : `${count} entries`;
+
+      cells.push(
+        `<button class="${classes.join(' ')}" data-day="${day}" title="${title}">` +
+        `<span class="date">${date}</span>${count > 0 ? `<span class="count">${count}</span>` : ''}</button>`
+      );
+    }
+
+    return `<!DOCTYPE html>
+<html lang="${CalendarPanel.escapeHtml(locale)}">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>dotLOG Calendar</title>
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    header { display: flex; align-items: center; gap: 8px; }
+    header h1 { flex: 1; font-size: 1.3em; font-weight: normal; }
+    button { font: inherit; color: inherit; cursor: pointer; }
+    header button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; }
+    .grid { display: grid; grid-template-columns: repeat(7, minmax(2.5em, 1fr)); gap: 4px; max-width: 40em; }
+    .weekday { text-align: center; opacity: 0.7; font-size: 0.9em; }
+    .day { position: relative; aspect-ratio: 1; background: none; border: 1px solid var(--vscode-panel-border, transparent); }
+    .day.has-entries { background: var(--vscode-list-inactiveSelectionBackground); font-weight: bold; }
+    .day.today { outline: 1px solid var(--vscode-focusBorder); }
+    .day.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+    .count { position: absolute; right: 4px; bottom: 2px; font-size: 0.75em; font-weight: normal; opacity: 0.8; }
+    ul { list-style: none; padding: 0; max-width: 40em; }
+    li button { display: block; width: 100%; text-align: left; background: none; border: none; padding: 6px 4px; }
+    li button:hover { background: var(--vscode-list-hoverBackground); }
+    .meta { opacity: 0.7; margin-right: 8px; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${CalendarPanel.escapeHtml(monthTitle)}</h1>
+    <button data-month="${CalendarPanel.addMonths(month, -1)}" title="Previous month">&lsaquo;</button>
+    <button data-month="${today.substring(0, 7)}">Today</button>
+    <button data-month="${CalendarPanel.addMonths(month, 1)}" title="Next month">&rsaquo;</button>
+  </header>
+  <div class="grid">
+    ${weekdays.map(weekday => `<div class="weekday">${CalendarPanel.escapeHtml(weekday)}</div>`).join('')}
+    ${cells.join('\n    ')}
+  </div>
+  ${selectedDay ? this.renderDayEntries(selectedDay, entriesByDay.get(selectedDay) || []) : ''}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.addEventListener('click', event => {
+      const target = event.target.closest('button');
+      if (!target) {
+        return;
+      }
+      if (target.dataset.month) {
+        vscode.postMessage({ type: 'showMonth', month: target.dataset.month });
+      } else if (target.dataset.entry) {
+        vscode.postMessage({ type: 'openEntry', day: target.dataset.entryDay, index: Number(target.dataset.entry) });
+      } else if (target.dataset.day) {
+        vscode.postMessage({ type: 'selectDay', day: target.dataset.day });
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Renders the list of a day's entries
+   * @param day The YYYY-MM-DD day
+   * @param entries The day's entries
+   * @returns HTML for the list
+   */
+  private renderDayEntries(day: string, entries: TimelineEntry[]): string {
+    const items = entries.map(({ file, entry }, index) => {
+      const time = this.timestampService.formatTimestamp(entry.date, this.configurationService.getTimestampOptions(file.uri));
+      return `<li><button data-entry="${index}" data-entry-day="${CalendarPanel.escapeHtml(day)}">` +
+        `<span class="meta">${CalendarPanel.escapeHtml(time)} · ${CalendarPanel.escapeHtml(path.basename(file.uri.path))}</span>` +
+        `${CalendarPanel.escapeHtml(entry.title)}</button></li>`;
+    });
+
+    return `<h2>${CalendarPanel.escapeHtml(day)}</h2>\n  ${items.length > 0 ? `<ul>${items.join('')}</ul>` : '<p>No entries on this day.</p>'}`;
+  }
+
+  /**
+   * Renders the page shown when the entries can't be read
+   * @param message The error message
+   * @returns The HTML document
+   */
+  public renderErrorHtml(message: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>dotLOG Calendar</title>
+</head>
+<body>
+  <h1>dotLOG Calendar</h1>
+  <p>The .LOG entries could not be read: ${CalendarPanel.escapeHtml(message)}</p>
+</body>
+</html>`;
+  }
+
+  /**
+   * Re-reads the entries and renders the page
+   * Failures are logged and shown in the panel, so callers never see a rejection.
+   */
+  private async update(): Promise<void> {
+    try {
+      this.entriesByDay = this.groupEntriesByDay(await this.fileIndex.getFiles());
+      if (this.disposables.length === 0) {
+        return;
+      }
+
+      this.panel.webview.html = this.renderHtml(
+        this.month,
+        this.entriesByDay,
+        this.selectedDay,
+        this.toDay(new Date()),
+        crypto.randomBytes(16).toString('base64')
+      );
+    } catch (error) {
+      this.logger.logError(error instanceof Error ? error : new Error('Unknown error'), {
+        operation: 'updateCalendar'
+      });
+      if (this.disposables.length > 0) {
+        this.panel.webview.html = this.renderErrorHtml(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Handles clicks in the calendar
+   * @param message The message posted by the page
+   */
+  private async handleMessage(message: CalendarMessage): Promise<void> {
+    switch (message.type) {
+      case 'showMonth':
+        if (/^\d{4}-\d{2}$/.test(message.month)) {
+          this.month = message.month;
+          await this.update();
+        }
+        break;
+      case 'selectDay':
+        if (CalendarPanel.DAY_PATTERN.test(message.day)) {
+          this.selectedDay = message.day;
+          await this.update();
+        }
+        break;
+      case 'openEntry': {
+        const item = this.entriesByDay.get(message.day)?.[message.index];
+        if (item) {
+          const position = item.entry.headerRange.start;
+          try {
+            await vscode.window.showTextDocument(item.file.uri, {
+              selection: new vscode.Range(position, position),
+              viewColumn: vscode.ViewColumn.One
+            });
+          } catch (error) {
+            this.logger.logError(error instanceof Error ? error : new Error('Unknown error'), {
+              operation: 'openCalendarEntry',
+              filePath: item.file.uri.fsPath
+            });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Formats a date as a YYYY-MM-DD day in the configured time zone
+   * @param date The date
+   * @param scope Optional file whose workspace folder may set its own time zone
+   * @returns The day
+   */
+  private toDay(date: Date, scope?: vscode.Uri): string {
+    return this.timestampService.formatTimestamp(date, {
+      format: CalendarPanel.DAY_FORMAT,
+      timeZone: this.configurationService.getTimestampOptions(scope).timeZone,
+      timeZoneSuffix: TimeZoneSuffix.NONE
+    });
+  }
+
+  /**
+   * Moves a YYYY-MM month by a number of months
+   * @param month The month
+   * @param months Months to add, negative to go back
+   * @returns The resulting month
+   */
+  private static addMonths(month: string, months: number): string {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, monthIndex - 1 + months, 1)).toISOString().substring(0, 7);
+  }
+
+  /**
+   * Escapes text for use in HTML content and attribute values
+   * @param text The text
+   * @returns The escaped text
+   */
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
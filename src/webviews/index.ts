@@ -0,0 +1,2 @@
+// Webview exports
+export { CalendarPanel } from './calendarPanel';